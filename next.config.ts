@@ -1,7 +1,17 @@
 import type { NextConfig } from "next";
+import { readFileSync } from "node:fs";
+import path from "node:path";
+
+// Pin the self-hosted WASM path to the installed @mediapipe/tasks-vision
+// (see scripts/mediapipe-assets.mjs) so JS bundle and WASM never drift apart.
+const mediapipeVersion: string = JSON.parse(
+  readFileSync(path.join(process.cwd(), "node_modules/@mediapipe/tasks-vision/package.json"), "utf8")
+).version;
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  env: {
+    NEXT_PUBLIC_MEDIAPIPE_VERSION: mediapipeVersion,
+  },
 };
 
 export default nextConfig;
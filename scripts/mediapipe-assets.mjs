@@ -0,0 +1,68 @@
+// Copies the MediaPipe WASM fileset from the installed package into public/
+// and downloads the .task models once, so the app can run without reaching
+// a CDN. Layout (mirrored by any NEXT_PUBLIC_MEDIAPIPE_BASE_URL host):
+//
+//   public/mediapipe/<version>/wasm/vision_wasm_*.{js,wasm}
+//   public/mediapipe/models/<name>.task
+//
+// Runs before `dev` and `build`. A failed model download only warns: the
+// app falls back to the remote model URL until the file is present.
+
+import { copyFile, mkdir, readdir, readFile, stat, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+const root = process.cwd();
+const pkgDir = path.join(root, "node_modules", "@mediapipe", "tasks-vision");
+const outDir = path.join(root, "public", "mediapipe");
+
+const MODELS = {
+  "pose_landmarker_lite.task":
+    "https://storage.googleapis.com/mediapipe-models/pose_landmarker/pose_landmarker_lite/float16/1/pose_landmarker_lite.task",
+  "pose_landmarker_full.task":
+    "https://storage.googleapis.com/mediapipe-models/pose_landmarker/pose_landmarker_full/float16/1/pose_landmarker_full.task",
+  "pose_landmarker_heavy.task":
+    "https://storage.googleapis.com/mediapipe-models/pose_landmarker/pose_landmarker_heavy/float16/1/pose_landmarker_heavy.task",
+  "face_landmarker.task":
+    "https://storage.googleapis.com/mediapipe-models/face_landmarker/face_landmarker/float16/1/face_landmarker.task",
+};
+
+async function exists(p) {
+  try {
+    return (await stat(p)).size > 0;
+  } catch {
+    return false;
+  }
+}
+
+async function copyWasm() {
+  const { version } = JSON.parse(await readFile(path.join(pkgDir, "package.json"), "utf8"));
+  const dest = path.join(outDir, version, "wasm");
+  await mkdir(dest, { recursive: true });
+
+  const files = await readdir(path.join(pkgDir, "wasm"));
+  for (const f of files) {
+    if (!(await exists(path.join(dest, f)))) await copyFile(path.join(pkgDir, "wasm", f), path.join(dest, f));
+  }
+  console.log(`[mediapipe] wasm ${version} -> public/mediapipe/${version}/wasm`);
+}
+
+async function downloadModels() {
+  const dest = path.join(outDir, "models");
+  await mkdir(dest, { recursive: true });
+
+  for (const [name, url] of Object.entries(MODELS)) {
+    const file = path.join(dest, name);
+    if (await exists(file)) continue;
+    try {
+      const res = await fetch(url);
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      await writeFile(file, Buffer.from(await res.arrayBuffer()));
+      console.log(`[mediapipe] downloaded ${name}`);
+    } catch (err) {
+      console.warn(`[mediapipe] could not download ${name} (${err.message}); the app will use the remote URL`);
+    }
+  }
+}
+
+await copyWasm();
+await downloadModels();
@@ -2,10 +2,11 @@
 
 import { useEffect, useRef, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import type { UserSettings, AppEvent } from "@/types/contracts";
+import type { AppEvent } from "@/types/contracts";
 import { logEvent, getLastNMinutesBuckets, uid } from "@/lib/storage/repo";
 import { sumBuckets, postureScore, topIssue, blinkRate } from "@/lib/stats/compute";
 import { useReminders } from "@/hooks/useReminders";
+import { useSettings } from "@/hooks/useSettings";
 //import ThemeToggle from "@/components/ThemeToggle";
 
 // ---------- Types ----------
@@ -25,16 +26,6 @@ type SummaryResponse = {
   recommendedReminders?: { breakMin: number; waterMin: number; stretchMin: number };
 };
 
-const defaultSettings: UserSettings = {
-  sensitivity: "medium",
-  focusMode: false,
-  cameraEnabled: true,
-  voiceEnabled: false,
-  privacyMode: false,
-  reminders: { breakMin: 50, waterMin: 90, stretchMin: 60 },
-  distraction: { awayThresholdSec: 20, lookAwayThresholdSec: 10 },
-};
-
 // ---------- Small UI helpers ----------
 function Chip({
   label,
@@ -215,7 +206,7 @@ function formatMMSS(sec: number) {
 }
 
 export default function DashboardPage() {
-  const [settings, setSettings] = useState<UserSettings>(defaultSettings);
+  const { settings, setSettings } = useSettings();
   const [remindersEnabled, setRemindersEnabled] = useState(true);
 
   // Person A will wire real session id later
@@ -266,7 +257,7 @@ export default function DashboardPage() {
     const buckets = await getLastNMinutesBuckets(15);
     const totals = sumBuckets(buckets);
     setSnapshot({
-      score: postureScore(totals.postureSec),
+      score: postureScore(totals.postureSec, totals.severitySec),
       issue: topIssue(totals.postureSec),
       fatigue: Math.round(totals.avgFatigue),
       blink: blinkRate(totals.blinks, buckets.length),
@@ -287,9 +278,11 @@ export default function DashboardPage() {
     return {
       windowMin: 15,
       aggregates: {
-        postureScore: postureScore(totals.postureSec),
+        postureScore: postureScore(totals.postureSec, totals.severitySec),
         topIssue: topIssue(totals.postureSec),
         postureSec: totals.postureSec,
+        severitySec: totals.severitySec,
+        uncertainSec: totals.uncertainSec,
         focusSec: totals.focusSec,
         avgBlinkRate: blinkRate(totals.blinks, buckets.length),
         avgFatigue: Math.round(totals.avgFatigue),
@@ -339,9 +332,11 @@ export default function DashboardPage() {
       const payload = {
         range: { start, end, preset: "today" },
         aggregates: {
-          postureScore: postureScore(totals.postureSec),
+          postureScore: postureScore(totals.postureSec, totals.severitySec),
           topIssue: topIssue(totals.postureSec),
           postureSec: totals.postureSec,
+          severitySec: totals.severitySec,
+          uncertainSec: totals.uncertainSec,
           focusSec: totals.focusSec,
           avgBlinkRate: blinkRate(totals.blinks, buckets.length),
           avgFatigue: Math.round(totals.avgFatigue),
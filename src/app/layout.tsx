@@ -2,6 +2,7 @@ import "./globals.css";
 import type { Metadata } from "next";
 import { ThemeProvider } from "next-themes";
 import TopNav from "@/components/TopNav";
+import { MonitoringProvider } from "@/components/MonitoringProvider";
 import { Toaster } from "sonner";
 
 export const metadata: Metadata = {
@@ -19,8 +20,10 @@ export default function RootLayout({ children }: { children: React.ReactNode })
           enableSystem
           disableTransitionOnChange
         >
-          <TopNav />
-          {children}
+          <MonitoringProvider>
+            <TopNav />
+            {children}
+          </MonitoringProvider>
           <Toaster richColors position="top-right" />
         </ThemeProvider>
       </body>
@@ -1,9 +1,33 @@
 "use client";
 
-import { useMemo } from "react";
-import { useMonitoringEngine } from "@/hooks/useMonitoringEngine";
-import { useCoachNotifier, requestCoachNotificationPermission } from "@/lib/coach/useCoachNotifier";
-import type { PostureState } from "@/types";
+import { useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+import { useMonitoring } from "@/components/MonitoringProvider";
+import { useSettings } from "@/hooks/useSettings";
+import { useRecordings } from "@/hooks/useRecordings";
+import { REPLAY_SPEEDS } from "@/lib/replay/player";
+import { CAMERA_FPS, CAMERA_RESOLUTIONS } from "@/lib/vision/camera";
+import { requestCoachNotificationPermission } from "@/lib/coach/useCoachNotifier";
+import { resolveCoachTiming } from "@/lib/coach/coach";
+import { BLINK } from "@/lib/eyes/blink";
+import { POSTURE_STATES } from "@/lib/posture/taxonomy";
+import type { MonitoringEngine, PauseReason, PostureState } from "@/types";
+import type {
+  AutoPauseSettings,
+  CameraResolution,
+  CameraSettings,
+  CoachProfile,
+  CoachSettings,
+  CoachTiming,
+  DistanceSettings,
+  HiddenTabPolicy,
+  InferenceBackend,
+  PoseModelVariant,
+  PowerSettings,
+  Sensitivity,
+  SmoothingFilter,
+  SmoothingSettings,
+} from "@/types/contracts";
 
 // ---------- Theme shell (same vibe as Dashboard/Stats) ----------
 function PageShell({ children }: { children: React.ReactNode }) {
@@ -98,23 +122,711 @@ function prettyLabel(s: PostureState) {
 
 /**
  * Tone mapping:
- * - no_person => neutral
- * - everything else => warn (since your current union has no "good")
- * If later you add "good" back, you can treat it as ok.
+ * - good => ok
+ * - no_person / uncertain => neutral (posture unknown)
+ * - any issue => warn
  */
 function toneForPrimary(p: PostureState): "ok" | "warn" | "neutral" {
-  if (p === "no_person") return "neutral";
+  if (p === "good") return "ok";
+  if (p === "no_person" || p === "uncertain") return "neutral";
   return "warn";
 }
 
+function CalibrationPanel({ engine }: { engine: MonitoringEngine }) {
+  const cal = engine.calibration;
+
+  // saving/clearing the baseline hits IndexedDB, which can reject (quota, blocked DB)
+  const run = (fn: () => Promise<unknown>, what: string) => {
+    fn().catch((err) => toast.error(what, { description: err instanceof Error ? err.message : String(err) }));
+  };
+
+  if (cal) {
+    const pct = Math.round(cal.progress * 100);
+    return (
+      <div className="rounded-2xl border border-sky-500/30 bg-sky-500/5 p-4">
+        <div className="text-xs text-muted-foreground">Calibration</div>
+        <ol className="mt-2 list-decimal pl-5 text-sm text-muted-foreground space-y-1">
+          <li>Sit the way you want to be judged against: tall, shoulders relaxed.</li>
+          <li>Face the screen at your usual distance.</li>
+          <li>Hold still until the bar fills, then confirm.</li>
+        </ol>
+
+        <div className="mt-3 h-2 w-full rounded-full bg-muted overflow-hidden">
+          <div
+            className="h-full rounded-full bg-gradient-to-r from-emerald-500 via-sky-500 to-fuchsia-500 transition-all duration-200"
+            style={{ width: `${pct}%` }}
+          />
+        </div>
+        <div className="mt-2 text-xs text-muted-foreground">
+          {cal.problems.length ? cal.problems.join(" · ") : cal.phase === "ready" ? "Looks good — confirm to save." : `Holding… ${pct}%`}
+        </div>
+
+        <div className="mt-3 flex flex-wrap gap-2">
+          <PrimaryButton onClick={() => run(engine.confirmCalibration, "Couldn't save calibration")} disabled={cal.phase !== "ready"}>
+            Confirm
+          </PrimaryButton>
+          <SoftButton onClick={() => engine.cancelCalibration()}>Cancel</SoftButton>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-2xl border border-border bg-card/60 p-4">
+      <div className="text-xs text-muted-foreground">Calibration</div>
+      <div className="mt-1 text-sm">
+        {engine.baseline
+          ? `Calibrated ${new Date(engine.baseline.capturedAt).toLocaleString()}`
+          : "Not calibrated — using the first seconds of each run."}
+      </div>
+      <div className="mt-3 flex flex-wrap gap-2">
+        <SoftButton onClick={() => engine.startCalibration()} disabled={!engine.isRunning}>
+          {engine.baseline ? "Re-calibrate" : "Calibrate"}
+        </SoftButton>
+        {engine.baseline ? <SoftButton onClick={() => run(engine.resetBaseline, "Couldn't reset calibration")}>Reset</SoftButton> : null}
+      </div>
+      {!engine.isRunning ? (
+        <div className="mt-2 text-xs text-muted-foreground">Start monitoring to calibrate.</div>
+      ) : null}
+    </div>
+  );
+}
+
+function DistancePanel({
+  engine,
+  distance,
+  onChange,
+}: {
+  engine: MonitoringEngine;
+  distance: DistanceSettings;
+  onChange: (patch: Partial<DistanceSettings>) => void;
+}) {
+  const [knownCm, setKnownCm] = useState(60);
+  const [note, setNote] = useState<string | null>(null);
+  const cm = engine.distanceSignal;
+  const tone = cm == null ? "neutral" : cm < distance.minCm || cm > distance.maxCm ? "warn" : "ok";
+
+  const numberInput = (value: number, set: (v: number) => void, min: number, max: number) => (
+    <input
+      type="number"
+      className="w-20 rounded-xl border border-border bg-card/70 backdrop-blur px-2 py-1 text-sm"
+      min={min}
+      max={max}
+      value={value}
+      onChange={(e) => {
+        const v = Number(e.target.value);
+        if (Number.isFinite(v) && v >= min && v <= max) set(v);
+      }}
+    />
+  );
+
+  return (
+    <div className="rounded-2xl border border-border bg-card/60 p-4">
+      <div className="flex items-center justify-between gap-2">
+        <div className="text-xs text-muted-foreground">Screen distance</div>
+        <Pill label={cm != null ? `${cm} cm` : "—"} tone={tone} />
+      </div>
+      <div className="mt-1 text-xs text-muted-foreground">
+        Estimated from iris size.{" "}
+        {distance.focalRatio != null ? "Calibrated for this camera." : `Assumes a ${distance.cameraFovDeg}° camera.`}
+      </div>
+
+      <div className="mt-3 flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+        <span>Keep between</span>
+        {numberInput(distance.minCm, (v) => onChange({ minCm: v }), 20, distance.maxCm - 5)}
+        <span>and</span>
+        {numberInput(distance.maxCm, (v) => onChange({ maxCm: v }), distance.minCm + 5, 200)}
+        <span>cm</span>
+      </div>
+
+      <div className="mt-3 flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+        <span>Sit at</span>
+        {numberInput(knownCm, setKnownCm, 20, 200)}
+        <span>cm, then</span>
+        <SoftButton
+          disabled={!engine.isRunning}
+          onClick={() => {
+            const focalRatio = engine.calibrateDistance(knownCm);
+            if (focalRatio == null) {
+              setNote("No iris tracked yet — face the camera and try again.");
+              return;
+            }
+            setNote(null);
+            onChange({ focalRatio });
+          }}
+        >
+          Calibrate
+        </SoftButton>
+        {distance.focalRatio != null ? <SoftButton onClick={() => onChange({ focalRatio: null })}>Reset</SoftButton> : null}
+      </div>
+      {note ? <div className="mt-2 text-xs text-rose-300">{note}</div> : null}
+    </div>
+  );
+}
+
+function CameraPanel({
+  engine,
+  camera,
+  onChange,
+}: {
+  engine: MonitoringEngine;
+  camera: CameraSettings;
+  onChange: (patch: Partial<CameraSettings>) => void;
+}) {
+  const selectClass = "rounded-xl border border-border bg-card/70 backdrop-blur px-3 py-1.5 text-sm";
+  const saved = camera.deviceId;
+  const missing = saved != null && engine.cameras.length > 0 && !engine.cameras.some((c) => c.deviceId === saved);
+
+  return (
+    <div className="rounded-2xl border border-border bg-card/60 p-4">
+      <div className="flex items-center justify-between gap-2">
+        <div className="text-xs text-muted-foreground">Camera</div>
+        <select
+          className={`${selectClass} max-w-[60%]`}
+          value={missing ? "" : saved ?? ""}
+          onFocus={() => engine.refreshCameras()}
+          onChange={(e) => onChange({ deviceId: e.target.value || null })}
+        >
+          <option value="">Default camera</option>
+          {engine.cameras.map((c) => (
+            <option key={c.deviceId} value={c.deviceId}>
+              {c.label}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="mt-3 flex items-center justify-between gap-2">
+        <div className="text-xs text-muted-foreground">Resolution / FPS</div>
+        <div className="flex gap-2">
+          <select
+            className={selectClass}
+            value={camera.resolution}
+            onChange={(e) => onChange({ resolution: e.target.value as CameraResolution })}
+          >
+            {(Object.keys(CAMERA_RESOLUTIONS) as CameraResolution[]).map((r) => (
+              <option key={r} value={r}>
+                {r}
+              </option>
+            ))}
+          </select>
+          <select className={selectClass} value={camera.fps} onChange={(e) => onChange({ fps: Number(e.target.value) })}>
+            {CAMERA_FPS.map((f) => (
+              <option key={f} value={f}>
+                {f} fps
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <div className="mt-1 text-xs text-muted-foreground">
+        {missing
+          ? "Saved camera is not connected — using the default."
+          : "Higher resolution helps distance estimates; lower is lighter on the CPU."}
+      </div>
+    </div>
+  );
+}
+
+const COACH_FIELDS: { key: keyof CoachTiming; label: string }[] = [
+  { key: "windowMs", label: "Window" },
+  { key: "badDominanceMs", label: "Bad time per window" },
+  { key: "continuousBadMs", label: "One issue held for" },
+  { key: "cooldownMs", label: "Between reminders" },
+  { key: "alertCooldownMs", label: "Between posture alerts" },
+];
+
+const PAUSE_LABEL: Record<PauseReason, string> = {
+  manual: "Paused",
+  tab_hidden: "Paused · tab hidden",
+  absent: "Away · camera off",
+};
+
+function AutoPausePanel({
+  autoPause,
+  onChange,
+}: {
+  autoPause: AutoPauseSettings;
+  onChange: (patch: Partial<AutoPauseSettings>) => void;
+}) {
+  const number = (key: "hiddenFps" | "releaseAfterMin" | "probeEverySec", min: number, max: number) => (
+    <input
+      type="number"
+      className="w-20 rounded-xl border border-border bg-card/70 backdrop-blur px-2 py-1 text-sm"
+      min={min}
+      max={max}
+      value={autoPause[key]}
+      onChange={(e) => {
+        const v = Number(e.target.value);
+        if (Number.isFinite(v) && v >= min && v <= max) onChange({ [key]: v });
+      }}
+    />
+  );
+
+  return (
+    <div className="rounded-2xl border border-border bg-card/60 p-4">
+      <div className="flex items-center justify-between gap-2">
+        <div className="text-xs text-muted-foreground">Hidden tab</div>
+        <select
+          className="rounded-xl border border-border bg-card/70 backdrop-blur px-3 py-1.5 text-sm"
+          value={autoPause.hiddenTab}
+          onChange={(e) => onChange({ hiddenTab: e.target.value as HiddenTabPolicy })}
+        >
+          <option value="reduce">Keep checking, slower</option>
+          <option value="pause">Pause</option>
+        </select>
+      </div>
+      <div className="mt-3 space-y-2">
+        {autoPause.hiddenTab === "reduce" ? (
+          <label className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+            <span>Frames per second while hidden</span>
+            {number("hiddenFps", 1, 15)}
+          </label>
+        ) : null}
+        <label className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+          <span>Camera off after nobody in view (min)</span>
+          {number("releaseAfterMin", 0, 120)}
+        </label>
+        <label className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+          <span>Check for you every (s)</span>
+          {number("probeEverySec", 0, 3600)}
+        </label>
+      </div>
+      <div className="mt-1 text-xs text-muted-foreground">
+        {autoPause.releaseAfterMin > 0
+          ? `With the camera off, moving the mouse or typing turns it back on${
+              autoPause.probeEverySec > 0 ? ", and it briefly looks for you now and then" : ""
+            }.`
+          : "The camera stays on while nobody is in view."}{" "}
+        0 turns an option off.
+      </div>
+    </div>
+  );
+}
+
+function PowerPanel({ power, onChange }: { power: PowerSettings; onChange: (patch: Partial<PowerSettings>) => void }) {
+  const number = (key: "minFps" | "maxFps" | "faceFps") => (
+    <input
+      type="number"
+      className="w-20 rounded-xl border border-border bg-card/70 backdrop-blur px-2 py-1 text-sm"
+      min={1}
+      max={60}
+      value={power[key]}
+      onChange={(e) => {
+        const v = Number(e.target.value);
+        if (Number.isFinite(v) && v >= 1 && v <= 60) onChange({ [key]: v });
+      }}
+    />
+  );
+
+  return (
+    <div className="rounded-2xl border border-border bg-card/60 p-4">
+      <label className="flex items-center justify-between gap-2">
+        <span className="text-xs text-muted-foreground">Adaptive frame rate</span>
+        <input
+          className="h-4 w-4 accent-foreground"
+          type="checkbox"
+          checked={power.adaptive}
+          onChange={(e) => onChange({ adaptive: e.target.checked })}
+        />
+      </label>
+      <div className="mt-3 space-y-2">
+        {power.adaptive ? (
+          <label className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+            <span>Pose fps when settled</span>
+            {number("minFps")}
+          </label>
+        ) : null}
+        <label className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+          <span>{power.adaptive ? "Pose fps when issues appear" : "Pose fps"}</span>
+          {number("maxFps")}
+        </label>
+        <label className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+          <span>Face / distance fps</span>
+          {number("faceFps")}
+        </label>
+        <label className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+          <span>Track blinks (keeps {BLINK.minFaceFps} fps or more)</span>
+          <input
+            className="h-4 w-4 accent-foreground"
+            type="checkbox"
+            checked={power.trackBlinks}
+            onChange={(e) => onChange({ trackBlinks: e.target.checked })}
+          />
+        </label>
+        <label className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+          <span>Halve on battery</span>
+          <input
+            className="h-4 w-4 accent-foreground"
+            type="checkbox"
+            checked={power.batterySaver}
+            onChange={(e) => onChange({ batterySaver: e.target.checked })}
+          />
+        </label>
+      </div>
+      <div className="mt-1 text-xs text-muted-foreground">
+        {power.adaptive
+          ? "The pose rate steps down while posture stays settled and jumps back up as soon as something is flagged."
+          : "Pose runs at a fixed rate."}{" "}
+        {power.trackBlinks
+          ? `Blink tracking keeps every rate at ${BLINK.minFaceFps} fps or more.`
+          : `Below ${BLINK.minFaceFps} face fps, blink rate and fatigue show as unknown.`}
+      </div>
+    </div>
+  );
+}
+
+function DiagnosticsPanel({ engine }: { engine: MonitoringEngine }) {
+  const d = engine.diagnostics;
+  const rows: [string, string][] = d
+    ? [
+        ["Pose", `${d.fps} fps (target ${d.targetFps})`],
+        ["Face", `${d.faceFps} fps`],
+        ["Inference", `${d.inferenceMs} ms / frame`],
+        ["Backend", engine.backend ?? "—"],
+        ["Power", d.onBattery ? "Battery" : "Plugged in / unknown"],
+      ]
+    : [];
+
+  return (
+    <div className="rounded-2xl border border-border bg-card/60 p-4">
+      <div className="text-xs text-muted-foreground">Diagnostics</div>
+      {d ? (
+        <dl className="mt-2 grid grid-cols-2 gap-x-3 gap-y-1 text-sm">
+          {rows.map(([k, v]) => (
+            <div key={k} className="contents">
+              <dt className="text-muted-foreground">{k}</dt>
+              <dd className="text-right tabular-nums">{v}</dd>
+            </div>
+          ))}
+        </dl>
+      ) : (
+        <div className="mt-2 text-sm text-muted-foreground">
+          {engine.isPaused
+            ? "Paused."
+            : engine.isRunning
+            ? "Waiting for frames…"
+            : "Start the camera to see live rates."}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function formatDuration(ms: number) {
+  const s = Math.round(ms / 1000);
+  return s >= 60 && s % 60 === 0 ? `${s / 60} min` : `${s}s`;
+}
+
+function CoachPanel({ coach, onChange }: { coach: CoachSettings; onChange: (patch: Partial<CoachSettings>) => void }) {
+  const t = resolveCoachTiming(coach);
+
+  return (
+    <div className="rounded-2xl border border-border bg-card/60 p-4">
+      <div className="flex items-center justify-between gap-2">
+        <div className="text-xs text-muted-foreground">Coach timing</div>
+        <select
+          className="rounded-xl border border-border bg-card/70 backdrop-blur px-3 py-1.5 text-sm"
+          value={coach.profile}
+          onChange={(e) => onChange({ profile: e.target.value as CoachProfile })}
+        >
+          <option value="demo">Demo</option>
+          <option value="gentle">Gentle</option>
+          <option value="standard">Standard</option>
+          <option value="strict">Strict</option>
+          <option value="custom">Custom</option>
+        </select>
+      </div>
+      <div className="mt-1 text-xs text-muted-foreground">
+        Reminds after {formatDuration(t.badDominanceMs)} of bad posture in {formatDuration(t.windowMs)}, or{" "}
+        {formatDuration(t.continuousBadMs)} of one issue; at most every {formatDuration(t.cooldownMs)}. Posture alerts
+        at most every {formatDuration(t.alertCooldownMs)}.
+      </div>
+
+      {coach.profile === "custom" ? (
+        <div className="mt-3 space-y-2">
+          {COACH_FIELDS.map(({ key, label }) => (
+            <label key={key} className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+              <span>{label} (s)</span>
+              <input
+                type="number"
+                className="w-20 rounded-xl border border-border bg-card/70 backdrop-blur px-2 py-1 text-sm"
+                min={5}
+                max={3600}
+                value={Math.round(coach.custom[key] / 1000)}
+                onChange={(e) => {
+                  const v = Number(e.target.value);
+                  if (Number.isFinite(v) && v >= 5 && v <= 3600) onChange({ custom: { ...coach.custom, [key]: v * 1000 } });
+                }}
+              />
+            </label>
+          ))}
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+function formatMs(ms: number) {
+  const s = Math.floor(ms / 1000);
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, "0")}`;
+}
+
+function RecordingPanel({ engine }: { engine: MonitoringEngine }) {
+  const { recordings, refresh, remove, exportFile, importFile } = useRecordings();
+  const [error, setError] = useState<string | null>(null);
+  const replay = engine.replay;
+
+  const run = (fn: () => Promise<unknown>) => {
+    setError(null);
+    fn().catch((err) => setError(err instanceof Error ? err.message : String(err)));
+  };
+
+  return (
+    <div className="mt-4 rounded-2xl border border-border bg-card/60 p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <div className="text-sm font-medium">Landmark recordings</div>
+          <div className="text-xs text-muted-foreground mt-0.5">
+            Pose/face points only, no video. Replay them to check detections or new thresholds.
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {engine.isRecordingLandmarks ? (
+            <SoftButton
+              onClick={() =>
+                run(async () => {
+                  await engine.stopLandmarkRecording();
+                  await refresh();
+                })
+              }
+            >
+              Stop recording
+            </SoftButton>
+          ) : (
+            <SoftButton onClick={() => engine.startLandmarkRecording()} disabled={!engine.isRunning}>
+              Record
+            </SoftButton>
+          )}
+          <SoftButton onClick={() => engine.startDemo()} disabled={engine.replay?.recordingId === "synthetic"}>
+            Demo (no camera)
+          </SoftButton>
+          <label className="rounded-xl px-4 py-2 text-sm font-medium border border-border bg-card/70 backdrop-blur hover:bg-muted cursor-pointer">
+            Import
+            <input
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = "";
+                if (file) run(() => importFile(file));
+              }}
+            />
+          </label>
+        </div>
+      </div>
+
+      {replay ? (
+        <div className="mt-3 rounded-xl border border-sky-500/30 bg-sky-500/10 p-3">
+          <div className="flex items-center justify-between gap-2 text-xs">
+            <span className="font-medium">Replaying {replay.label}</span>
+            <span className="text-muted-foreground">
+              {formatMs(replay.positionMs)} / {formatMs(replay.durationMs)}
+            </span>
+          </div>
+          <input
+            type="range"
+            className="mt-2 w-full accent-sky-500"
+            min={0}
+            max={Math.max(1, Math.round(replay.durationMs))}
+            step={100}
+            value={Math.round(replay.positionMs)}
+            onChange={(e) => engine.seekReplay(Number(e.target.value))}
+          />
+          <div className="mt-2 flex flex-wrap items-center gap-2">
+            {replay.playing ? (
+              <SoftButton onClick={() => engine.pauseReplay()}>Pause</SoftButton>
+            ) : (
+              <SoftButton onClick={() => engine.playReplay()}>Play</SoftButton>
+            )}
+            <select
+              className="rounded-xl border border-border bg-card/70 backdrop-blur px-3 py-2 text-sm"
+              value={replay.speed}
+              onChange={(e) => engine.setReplaySpeed(Number(e.target.value))}
+            >
+              {REPLAY_SPEEDS.map((x) => (
+                <option key={x} value={x}>
+                  {x}×
+                </option>
+              ))}
+            </select>
+            <SoftButton onClick={() => engine.stopReplay()}>Exit replay</SoftButton>
+          </div>
+        </div>
+      ) : null}
+
+      {error ? <div className="mt-2 text-xs text-rose-300">{error}</div> : null}
+
+      <div className="mt-3 space-y-2">
+        {recordings.length ? (
+          recordings.map((r) => (
+            <div
+              key={r.id}
+              className="flex flex-wrap items-center justify-between gap-2 rounded-xl border border-border bg-card/50 px-3 py-2"
+            >
+              <div className="text-xs">
+                <div className="font-medium">{r.label}</div>
+                <div className="text-muted-foreground">
+                  {formatMs(r.durationMs)} · {r.frameCount} frames
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <SoftButton onClick={() => run(() => engine.startReplay(r.id))} disabled={replay?.recordingId === r.id}>
+                  Replay
+                </SoftButton>
+                <SoftButton onClick={() => run(() => exportFile(r))}>Export</SoftButton>
+                <SoftButton
+                  onClick={() =>
+                    run(async () => {
+                      if (replay?.recordingId === r.id) engine.stopReplay();
+                      await remove(r.id);
+                    })
+                  }
+                >
+                  Delete
+                </SoftButton>
+              </div>
+            </div>
+          ))
+        ) : (
+          <div className="text-xs text-muted-foreground">No recordings yet. Start monitoring, then Record.</div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+const SMOOTHING_HINT: Record<SmoothingFilter, string> = {
+  off: "Raw landmarks; fastest response, most jitter.",
+  one_euro: "Smooth at rest, little lag on quick moves.",
+  kalman: "Steadier tracking of slow drifts.",
+};
+
+function SmoothingPanel({
+  smoothing,
+  onChange,
+}: {
+  smoothing: SmoothingSettings;
+  onChange: (patch: Partial<SmoothingSettings>) => void;
+}) {
+  const slider = (label: string, key: keyof SmoothingSettings, min: number, max: number, step: number) => (
+    <label className="mt-3 block">
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span>{label}</span>
+        <span>{String(smoothing[key])}</span>
+      </div>
+      <input
+        className="w-full mt-1"
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={Number(smoothing[key])}
+        onChange={(e) => onChange({ [key]: Number(e.target.value) })}
+      />
+    </label>
+  );
+
+  return (
+    <div className="rounded-2xl border border-border bg-card/60 p-4">
+      <div className="flex items-center justify-between gap-2">
+        <div className="text-xs text-muted-foreground">Landmark smoothing</div>
+        <select
+          className="rounded-xl border border-border bg-card/70 backdrop-blur px-3 py-1.5 text-sm"
+          value={smoothing.filter}
+          onChange={(e) => onChange({ filter: e.target.value as SmoothingFilter })}
+        >
+          <option value="off">Off</option>
+          <option value="one_euro">One Euro</option>
+          <option value="kalman">Kalman</option>
+        </select>
+      </div>
+      <div className="mt-1 text-xs text-muted-foreground">{SMOOTHING_HINT[smoothing.filter]}</div>
+
+      {smoothing.filter === "one_euro" ? (
+        <>
+          {slider("Min cutoff (Hz)", "minCutoffHz", 0.1, 5, 0.1)}
+          {slider("Speed coefficient (beta)", "beta", 0, 20, 0.5)}
+        </>
+      ) : null}
+      {smoothing.filter === "kalman" ? (
+        <>
+          {slider("Process noise", "kalmanProcessNoise", 0.005, 1, 0.005)}
+          {slider("Measurement noise", "kalmanMeasurementNoise", 0.001, 0.03, 0.001)}
+        </>
+      ) : null}
+
+      {smoothing.filter !== "off" ? (
+        <label className="mt-3 flex items-center justify-between gap-2">
+          <span className="text-xs text-muted-foreground">Show raw points (amber) on the overlay</span>
+          <input
+            className="h-4 w-4 accent-foreground"
+            type="checkbox"
+            checked={smoothing.showRaw}
+            onChange={(e) => onChange({ showRaw: e.target.checked })}
+          />
+        </label>
+      ) : null}
+    </div>
+  );
+}
+
+const SENSITIVITY_HINT: Record<Sensitivity, string> = {
+  low: "Only clear, sustained deviations.",
+  medium: "Balanced defaults.",
+  high: "Flags small deviations quickly.",
+};
+
+const POSE_MODEL_HINT: Record<PoseModelVariant, string> = {
+  lite: "Fastest, lowest CPU load.",
+  full: "More accurate, moderate load.",
+  heavy: "Most accurate; best with a GPU.",
+};
+
 export default function MonitorPage() {
-  const engine = useMonitoringEngine({ drawDebug: true, mirror: true, enableFace: true });
-  useCoachNotifier(engine);
+  const { settings, setSettings } = useSettings();
+  // the engine lives in the app-level provider; this page only borrows the video for its preview
+  const { canvasRef, attachVideo, ...engine } = useMonitoring();
+  const videoHostRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    const host = videoHostRef.current;
+    if (!host) return;
+    const className = ["h-full w-full object-cover -scale-x-100", settings.privacyMode ? "invisible" : ""].join(" ");
+    return attachVideo(host, className);
+  }, [attachVideo, settings.privacyMode]);
+  const disabledIssues = settings.postureOverrides?.disabled ?? [];
+
+  const toggleIssue = (issue: PostureState) =>
+    setSettings((s) => {
+      const disabled = s.postureOverrides?.disabled ?? [];
+      return {
+        ...s,
+        postureOverrides: {
+          ...s.postureOverrides,
+          disabled: disabled.includes(issue) ? disabled.filter((x) => x !== issue) : [...disabled, issue],
+        },
+      };
+    });
 
   const primary = engine.currentPostureState; // PostureState
   const activeList = engine.activeStates ?? [];
 
-  const primaryTone = useMemo(() => toneForPrimary(primary), [primary]);
+  const primaryTone = toneForPrimary(primary);
+  // the analyzer reports no eye metrics while face frames are too sparse for blinks (allow ~10% jitter)
+  const eyesUnknown = engine.diagnostics != null && engine.diagnostics.faceFps < BLINK.minFaceFps * 0.9;
+  // camera is live but nothing of it is on screen
+  const cameraHidden =
+    settings.privacyMode && engine.isRunning && !engine.cameraLost && engine.pauseReason !== "absent";
 
   return (
     <PageShell>
@@ -129,22 +841,47 @@ export default function MonitorPage() {
 
         <div className="flex flex-wrap items-center gap-2">
           <Pill
-            label={engine.isRunning ? "Monitoring ON" : "Monitoring OFF"}
-            tone={engine.isRunning ? "ok" : "neutral"}
+            label={engine.replay ? "Replay" : engine.isRunning ? "Monitoring ON" : "Monitoring OFF"}
+            tone={engine.isRunning || engine.replay ? "ok" : "neutral"}
           />
+          {engine.isRecordingLandmarks ? <Pill label="● Recording landmarks" tone="warn" /> : null}
+          {engine.cameraLost ? <Pill label="Camera disconnected" tone="warn" /> : null}
+          {engine.pauseReason ? <Pill label={PAUSE_LABEL[engine.pauseReason]} tone="neutral" /> : null}
+          {cameraHidden ? <Pill label="● Camera on · preview hidden" tone="warn" /> : null}
           <Pill label={`Primary: ${prettyLabel(primary)}`} tone={primaryTone} />
           <Pill
             label={`Active: ${activeList.length}`}
             tone={activeList.length ? "warn" : "neutral"}
           />
+          {engine.focusState ? (
+            <Pill
+              label={`Focus: ${engine.focusState.replaceAll("_", " ")}`}
+              tone={engine.focusState === "screen_facing" ? "ok" : "warn"}
+            />
+          ) : null}
+          {engine.backend ? (
+            <Pill label={`Backend: ${engine.backend}`} tone={engine.backend === "GPU" ? "ok" : "neutral"} />
+          ) : null}
         </div>
       </div>
 
       {/* Actions */}
       <div className="flex flex-wrap gap-2">
-        <PrimaryButton onClick={() => engine.start()} disabled={engine.isRunning}>
+        <PrimaryButton
+          onClick={() =>
+            engine.start().catch((err) =>
+              toast.error("Couldn't start monitoring", {
+                description: err instanceof Error ? err.message : String(err),
+              })
+            )
+          }
+          disabled={engine.isRunning}
+        >
           Start
         </PrimaryButton>
+        <SoftButton onClick={() => engine.pause()} disabled={!engine.isRunning}>
+          {engine.isPaused ? "Resume" : "Pause"}
+        </SoftButton>
         <SoftButton onClick={() => engine.stop()} disabled={!engine.isRunning}>
           Stop
         </SoftButton>
@@ -175,17 +912,33 @@ export default function MonitorPage() {
               </span>
             </div>
 
-            <div className="relative w-full aspect-video overflow-hidden rounded-2xl border border-border bg-black/20">
-              <video
-                ref={engine.videoRef}
-                className="h-full w-full object-cover -scale-x-100"
-                playsInline
-                muted
-              />
+            {/* the engine's <video> is inserted first; in privacy mode it is never painted and the canvas shows a landmark-only avatar */}
+            <div
+              ref={videoHostRef}
+              className="relative w-full aspect-video overflow-hidden rounded-2xl border border-border bg-black/20"
+            >
+              {settings.privacyMode ? (
+                <div className="absolute inset-0 grid place-items-center text-center text-sm text-muted-foreground">
+                  Privacy mode: video hidden
+                </div>
+              ) : null}
               <canvas
-                ref={engine.canvasRef}
+                ref={canvasRef}
                 className="absolute inset-0 h-full w-full pointer-events-none"
               />
+              {engine.cameraLost ? (
+                <div className="absolute inset-0 grid place-items-center bg-black/60 text-center text-sm text-white">
+                  <div>
+                    <div className="font-medium">Camera disconnected</div>
+                    <div className="mt-1 text-xs text-white/70">Monitoring is paused and resumes when it is back.</div>
+                  </div>
+                </div>
+              ) : null}
+              {cameraHidden ? (
+                <div className="absolute left-3 top-3 rounded-full bg-rose-500/90 px-2.5 py-0.5 text-[11px] font-medium text-white">
+                  ● Camera on
+                </div>
+              ) : null}
             </div>
 
             <div className="mt-3 flex flex-wrap gap-2">
@@ -197,6 +950,8 @@ export default function MonitorPage() {
                 <Pill label={`+${activeList.length - 6} more`} tone="neutral" />
               ) : null}
             </div>
+
+            <RecordingPanel engine={engine} />
           </div>
         </div>
 
@@ -227,6 +982,172 @@ export default function MonitorPage() {
               </div>
             </div>
 
+            <div className="rounded-2xl border border-border bg-card/60 p-4">
+              <div className="text-xs text-muted-foreground">Eyes</div>
+              <div className="mt-2 flex flex-wrap gap-2">
+                <Pill
+                  label={
+                    engine.blinkRate != null
+                      ? `Blink: ${engine.blinkRate}/min`
+                      : eyesUnknown
+                      ? "Blink: face rate too low"
+                      : "Blink: measuring…"
+                  }
+                  tone="neutral"
+                />
+                <Pill
+                  label={engine.fatigueScore != null ? `Fatigue: ${engine.fatigueScore}/100` : "Fatigue: —"}
+                  tone={engine.fatigueScore != null && engine.fatigueScore >= 60 ? "warn" : "neutral"}
+                />
+              </div>
+            </div>
+
+            <CalibrationPanel engine={engine} />
+
+            <DistancePanel
+              engine={engine}
+              distance={settings.distance}
+              onChange={(patch) => setSettings((s) => ({ ...s, distance: { ...s.distance, ...patch } }))}
+            />
+
+            <div className="rounded-2xl border border-border bg-card/60 p-4">
+              <div className="flex items-center justify-between gap-2">
+                <div className="text-xs text-muted-foreground">Sensitivity</div>
+                <select
+                  className="rounded-xl border border-border bg-card/70 backdrop-blur px-3 py-1.5 text-sm"
+                  value={settings.sensitivity}
+                  onChange={(e) => setSettings({ sensitivity: e.target.value as Sensitivity })}
+                >
+                  <option value="low">Low</option>
+                  <option value="medium">Medium</option>
+                  <option value="high">High</option>
+                </select>
+              </div>
+              <div className="mt-1 text-xs text-muted-foreground">{SENSITIVITY_HINT[settings.sensitivity]}</div>
+
+              <div className="mt-3 text-xs text-muted-foreground">Checks (click to mute)</div>
+              <div className="mt-2 flex flex-wrap gap-1.5">
+                {POSTURE_STATES.filter((x) => x !== "good").map((x) => {
+                  const off = disabledIssues.includes(x);
+                  return (
+                    <button
+                      key={x}
+                      onClick={() => toggleIssue(x)}
+                      className={[
+                        "rounded-full border px-2.5 py-0.5 text-[11px] transition",
+                        off
+                          ? "border-border text-muted-foreground line-through opacity-60"
+                          : "border-sky-500/30 bg-sky-500/10 text-foreground",
+                      ].join(" ")}
+                    >
+                      {prettyLabel(x)}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+
+            <CoachPanel
+              coach={settings.coach}
+              onChange={(patch) => setSettings((s) => ({ ...s, coach: { ...s.coach, ...patch } }))}
+            />
+
+            <div className="rounded-2xl border border-border bg-card/60 p-4">
+              <label className="flex items-center justify-between gap-2">
+                <span className="text-xs text-muted-foreground">Privacy mode</span>
+                <input
+                  className="h-4 w-4 accent-foreground"
+                  type="checkbox"
+                  checked={settings.privacyMode}
+                  onChange={(e) => setSettings({ privacyMode: e.target.checked })}
+                />
+              </label>
+              <div className="mt-1 text-xs text-muted-foreground">
+                Hides the camera feed and shows a stick figure built from landmarks. Frames go straight to the
+                detector and are never drawn or stored.
+              </div>
+            </div>
+
+            <div className="rounded-2xl border border-border bg-card/60 p-4">
+              <label className="flex items-center justify-between gap-2">
+                <span className="text-xs text-muted-foreground">Focus mode (distraction alerts)</span>
+                <input
+                  className="h-4 w-4 accent-foreground"
+                  type="checkbox"
+                  checked={settings.focusMode}
+                  onChange={(e) => setSettings({ focusMode: e.target.checked })}
+                />
+              </label>
+              <div className="mt-1 text-xs text-muted-foreground">
+                Alerts after {settings.distraction.lookAwayThresholdSec}s looking away or{" "}
+                {settings.distraction.awayThresholdSec}s away from the screen.
+              </div>
+            </div>
+
+            <div className="rounded-2xl border border-border bg-card/60 p-4">
+              <div className="flex items-center justify-between gap-2">
+                <div className="text-xs text-muted-foreground">Inference backend</div>
+                <select
+                  className="rounded-xl border border-border bg-card/70 backdrop-blur px-3 py-1.5 text-sm"
+                  value={settings.inference.backend}
+                  onChange={(e) =>
+                    setSettings((s) => ({
+                      ...s,
+                      inference: { ...s.inference, backend: e.target.value as InferenceBackend },
+                    }))
+                  }
+                >
+                  <option value="auto">Auto</option>
+                  <option value="GPU">GPU</option>
+                  <option value="CPU">CPU</option>
+                </select>
+              </div>
+              <div className="mt-3 flex items-center justify-between gap-2">
+                <div className="text-xs text-muted-foreground">Pose model</div>
+                <select
+                  className="rounded-xl border border-border bg-card/70 backdrop-blur px-3 py-1.5 text-sm"
+                  value={settings.inference.poseModel}
+                  onChange={(e) =>
+                    setSettings((s) => ({
+                      ...s,
+                      inference: { ...s.inference, poseModel: e.target.value as PoseModelVariant },
+                    }))
+                  }
+                >
+                  <option value="lite">Lite</option>
+                  <option value="full">Full</option>
+                  <option value="heavy">Heavy</option>
+                </select>
+              </div>
+              <div className="mt-1 text-xs text-muted-foreground">
+                {POSE_MODEL_HINT[settings.inference.poseModel]}{" "}
+                {engine.isRunning ? "Changes apply on next start." : "Auto falls back to CPU if GPU is unavailable."}
+              </div>
+            </div>
+
+            <CameraPanel
+              engine={engine}
+              camera={settings.camera}
+              onChange={(patch) => setSettings((s) => ({ ...s, camera: { ...s.camera, ...patch } }))}
+            />
+
+            <AutoPausePanel
+              autoPause={settings.autoPause}
+              onChange={(patch) => setSettings((s) => ({ ...s, autoPause: { ...s.autoPause, ...patch } }))}
+            />
+
+            <PowerPanel
+              power={settings.power}
+              onChange={(patch) => setSettings((s) => ({ ...s, power: { ...s.power, ...patch } }))}
+            />
+
+            <DiagnosticsPanel engine={engine} />
+
+            <SmoothingPanel
+              smoothing={settings.smoothing}
+              onChange={(patch) => setSettings((s) => ({ ...s, smoothing: { ...s.smoothing, ...patch } }))}
+            />
+
             <div className="rounded-2xl border border-border bg-card/60 p-4">
               <div className="text-xs text-muted-foreground">Quick help</div>
               <ul className="mt-2 list-disc pl-5 text-sm text-muted-foreground space-y-1">
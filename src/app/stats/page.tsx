@@ -25,11 +25,14 @@ import {
   postureScore,
   topIssue,
   postureBreakdownData,
+  postureIssueData,
   focusBreakdownData,
   countEventTypes,
   blinkRate,
+  fatigueWeight,
 } from "@/lib/stats/compute";
 
+import { postureLabel } from "@/lib/posture/taxonomy";
 import type { MinuteBucket, Session, AppEvent } from "@/types/contracts";
 import { fetchAiSummary, type AiSummary } from "@/lib/gemini/summaryClient";
 
@@ -37,7 +40,7 @@ type Preset = "today" | "7d" | "30d";
 
 const WEEK_DAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
 
-// Pie colors (good contrast in dark mode)
+// Pie colors (good contrast in dark mode); posture order = POSTURE_CATEGORIES
 const PIE_COLORS_POSTURE = ["#22c55e", "#3b82f6", "#a855f7", "#f97316", "#ef4444", "#06b6d4"];
 const PIE_COLORS_FOCUS = ["#3b82f6", "#a855f7", "#ef4444"];
 
@@ -46,15 +49,18 @@ const PIE_COLORS_FOCUS = ["#3b82f6", "#a855f7", "#ef4444"];
  * We average postureScore/fatigue/blinks across all MinuteBuckets that fall on each weekday.
  */
 function weeklyAggregate(buckets: MinuteBucket[]) {
-  const agg = new Map<number, { postureSum: number; fatigueSum: number; blinkSum: number; n: number }>();
-  for (let i = 0; i < 7; i++) agg.set(i, { postureSum: 0, fatigueSum: 0, blinkSum: 0, n: 0 });
+  const agg = new Map<number, { postureSum: number; fatigueSum: number; fatigueSec: number; blinkSum: number; n: number }>();
+  for (let i = 0; i < 7; i++) agg.set(i, { postureSum: 0, fatigueSum: 0, fatigueSec: 0, blinkSum: 0, n: 0 });
 
   for (const b of buckets) {
     const dayIdx = new Date(b.minuteTs).getDay(); // 0=Sun..6=Sat
     const v = agg.get(dayIdx)!;
 
-    v.postureSum += postureScore(b.postureSec);
-    v.fatigueSum += b.fatigueAvg ?? 0;
+    v.postureSum += postureScore(b.postureSec, b.severitySec);
+    // fatigue is weighted by eye-data time, so minutes without a face don't count as 0
+    const fw = fatigueWeight(b);
+    v.fatigueSum += (b.fatigueAvg ?? 0) * fw;
+    v.fatigueSec += fw;
     v.blinkSum += b.blinkCount ?? 0;
     v.n += 1;
   }
@@ -65,7 +71,7 @@ function weeklyAggregate(buckets: MinuteBucket[]) {
     return {
       day,
       postureScore: Math.round(v.postureSum / denom),
-      fatigue: Math.round(v.fatigueSum / denom),
+      fatigue: Math.round(v.fatigueSum / Math.max(1, v.fatigueSec)),
       blinks: Math.round(v.blinkSum / denom),
     };
   });
@@ -177,10 +183,11 @@ export default function StatsPage() {
   }, [preset]);
 
   const totals = useMemo(() => sumBuckets(buckets), [buckets]);
-  const score = useMemo(() => postureScore(totals.postureSec), [totals]);
+  const score = useMemo(() => postureScore(totals.postureSec, totals.severitySec), [totals]);
   const issue = useMemo(() => topIssue(totals.postureSec), [totals]);
 
   const posturePie = useMemo(() => postureBreakdownData(totals.postureSec), [totals]);
+  const postureIssues = useMemo(() => postureIssueData(totals.postureSec), [totals]);
   const focusPie = useMemo(() => focusBreakdownData(totals.focusSec), [totals]);
   const eventCounts = useMemo(() => countEventTypes(events), [events]);
 
@@ -201,6 +208,8 @@ export default function StatsPage() {
           postureScore: score,
           topIssue: issue,
           postureSec: totals.postureSec,
+          severitySec: totals.severitySec,
+          uncertainSec: totals.uncertainSec,
           focusSec: totals.focusSec,
           avgFatigue: Math.round(totals.avgFatigue),
           avgBlinkRate: blinkRate(totals.blinks, buckets.length),
@@ -282,8 +291,12 @@ export default function StatsPage() {
         <>
           {/* KPI CARDS */}
           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
-            <Kpi title="Posture Score" value={`${score}/100`} sub={`Top issue: ${issue}`} />
-            <Kpi title="Good posture" value={`${Math.round(totals.postureSec.good / 60)} min`} sub="Total in range" />
+            <Kpi title="Posture Score" value={`${score}/100`} sub={`Top issue: ${postureLabel(issue)}`} />
+            <Kpi
+              title="Good posture"
+              value={`${Math.round(totals.postureSec.good / 60)} min`}
+              sub={`Total in range · Uncertain: ${Math.round(totals.uncertainSec / 60)} min`}
+            />
             <Kpi
               title="Screen-facing"
               value={`${Math.round(totals.focusSec.screenFacing / 60)} min`}
@@ -345,6 +358,21 @@ export default function StatsPage() {
                   </PieChart>
                 </ResponsiveContainer>
               </CardContent>
+              {postureIssues.length ? (
+                <CardContent className="pt-0">
+                  <div className="text-xs text-muted-foreground mb-2">Detected issues</div>
+                  <div className="flex flex-wrap gap-2">
+                    {postureIssues.map((x) => (
+                      <span
+                        key={x.state}
+                        className="inline-flex items-center rounded-full border border-border bg-muted px-3 py-1 text-xs"
+                      >
+                        {x.name} · {Math.round(x.value / 60)} min
+                      </span>
+                    ))}
+                  </div>
+                </CardContent>
+              ) : null}
             </Card>
 
             <Card className="rounded-2xl border border-border bg-card/80 backdrop-blur">
@@ -0,0 +1,34 @@
+"use client";
+
+import { createContext, useContext } from "react";
+import { useMonitoringEngine } from "@/hooks/useMonitoringEngine";
+import { useSettings } from "@/hooks/useSettings";
+import { useCoachNotifier } from "@/lib/coach/useCoachNotifier";
+
+export type MonitoringHandle = ReturnType<typeof useMonitoringEngine>;
+
+const MonitoringContext = createContext<MonitoringHandle | null>(null);
+
+/**
+ * Hosts the one monitoring engine for the whole app, so camera, detection,
+ * recording and coach toasts keep running while the user moves between pages.
+ * Pages that show a preview borrow the video with `attachVideo`.
+ */
+export function MonitoringProvider({ children }: { children: React.ReactNode }) {
+  const { settings } = useSettings();
+  const engine = useMonitoringEngine({
+    drawDebug: true,
+    mirror: true,
+    enableFace: true,
+    settings,
+  });
+  useCoachNotifier(engine);
+
+  return <MonitoringContext.Provider value={engine}>{children}</MonitoringContext.Provider>;
+}
+
+export function useMonitoring(): MonitoringHandle {
+  const engine = useContext(MonitoringContext);
+  if (!engine) throw new Error("useMonitoring must be used inside <MonitoringProvider>");
+  return engine;
+}
@@ -3,6 +3,8 @@
 import Link from "next/link";
 import { usePathname } from "next/navigation";
 import ThemeToggle from "@/components/ThemeToggle";
+import { useMonitoring } from "@/components/MonitoringProvider";
+import { isBadState } from "@/lib/posture/stability";
 
 function NavPill({
   href,
@@ -30,6 +32,37 @@ function NavPill({
   );
 }
 
+/** Engine status on every page; links back to the Monitor preview. */
+function MonitoringBadge() {
+  const { isRunning, isPaused, pauseReason, cameraLost, replay, currentPostureState } = useMonitoring();
+  if (!isRunning && !replay) return null;
+
+  const label = replay
+    ? "Replay"
+    : cameraLost
+    ? "Camera disconnected"
+    : pauseReason === "absent"
+    ? "Away · camera off"
+    : isPaused
+    ? "Paused"
+    : currentPostureState.replaceAll("_", " ");
+  const tone =
+    cameraLost || (!replay && !isPaused && isBadState(currentPostureState))
+      ? "bg-rose-500/15 text-rose-300 border-rose-500/30"
+      : "bg-emerald-500/15 text-emerald-300 border-emerald-500/30";
+
+  return (
+    <Link
+      href="/monitor"
+      title="Monitoring is running"
+      className={["hidden sm:inline-flex items-center gap-1.5 rounded-full border px-3 py-1 text-xs", tone].join(" ")}
+    >
+      <span className="h-2 w-2 rounded-full bg-current" />
+      {label}
+    </Link>
+  );
+}
+
 export default function TopNav() {
   return (
     <header className="sticky top-0 z-50 border-b border-border bg-background/70 backdrop-blur">
@@ -42,6 +75,7 @@ export default function TopNav() {
         </div>
 
         <div className="flex items-center gap-2">
+          <MonitoringBadge />
           <NavPill href="/monitor" label="Monitor" />
           <NavPill href="/dashboard" label="Dashboard" />
           <NavPill href="/stats" label="Stats" />
@@ -1,21 +1,51 @@
 "use client";
 
 import { useCallback, useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
 import type {
+  CalibrationStatus,
+  CameraDevice,
+  InferenceDiagnostics,
   MonitoringEngine,
   MonitoringEvent,
+  MonitoringEventOf,
+  MonitoringEventType,
+  PauseReason,
   PostureState,
-  PostureMetrics,
-  PostureFlags,
+  ReplayStatus,
 } from "@/types";
-import { createFaceLandmarker, createPoseLandmarker } from "@/lib/vision/mediapipe";
-import { faceAreaSignal } from "@/lib/posture/heuristics";
+import { createInferenceClient, type InferenceClient } from "@/lib/vision/inferenceClient";
+import type { Delegate } from "@/lib/vision/mediapipe";
+import { listCameras, openCamera, streamDeviceId } from "@/lib/vision/camera";
+import { createFrameScheduler, watchBattery } from "@/lib/vision/scheduler";
+import type { FrameResult } from "@/lib/vision/protocol";
+import { createFrameAnalyzer, type FrameAnalysis } from "@/lib/analysis/analyzer";
+import { createSessionRecorder } from "@/lib/session/recorder";
+import { createEventBus } from "@/lib/events/bus";
+import { resolveDetectionProfile } from "@/lib/posture/thresholds";
+import { resolveCoachTiming } from "@/lib/coach/coach";
+import {
+  clearBaseline,
+  getRecording,
+  loadBaseline,
+  loadRecordingFrames,
+  saveBaseline,
+} from "@/lib/storage/repo";
+import { createLandmarkRecorder } from "@/lib/replay/landmarkRecorder";
+import { createReplayPlayer, type ReplayPlayer } from "@/lib/replay/player";
+import { demoScript, generateSyntheticFrames } from "@/lib/replay/synthetic";
+import { defaultSettings } from "@/lib/settings/defaults";
+import type { EyeSnapshot } from "@/lib/eyes/fatigue";
+import type { FocusState, PostureBaseline, RecordedFrame, UserSettings } from "@/types/contracts";
 
 type Options = {
   enableFace?: boolean;
-  fpsCap?: number;
+  fpsCap?: number; // hard ceiling; settings.power sets the actual (adaptive) rate
   drawDebug?: boolean;
   mirror?: boolean; // true if preview is mirrored (selfie style)
+  record?: boolean; // persist sessions + MinuteBuckets to IndexedDB
+  eventLog?: number; // keep the last N events in `events` (0 = off; subscribe with on() instead)
+  settings?: UserSettings; // sensitivity + overrides, applied live
 };
 
 // ---------- drawing helpers ----------
@@ -48,7 +78,8 @@ function drawPoint(
   yNorm: number,
   w: number,
   h: number,
-  r = 6
+  r = 6,
+  fill = "rgba(168, 85, 247, 1)"
 ) {
   const x = xNorm * w;
   const y = yNorm * h;
@@ -61,49 +92,111 @@ function drawPoint(
   ctx.arc(x, y, r + 2, 0, Math.PI * 2);
   ctx.fill();
 
-  // purple fill
+  // purple fill (smoothed) unless overridden
   ctx.beginPath();
-  ctx.fillStyle = "rgba(168, 85, 247, 1)";
+  ctx.fillStyle = fill;
   ctx.arc(x, y, r, 0, Math.PI * 2);
   ctx.fill();
 
   ctx.restore();
 }
 
-function ensureCanvasMatchesVideo(video: HTMLVideoElement, canvas: HTMLCanvasElement) {
-  const vw = video.videoWidth;
-  const vh = video.videoHeight;
-  if (!vw || !vh) return;
-  if (canvas.width !== vw) canvas.width = vw;
-  if (canvas.height !== vh) canvas.height = vh;
+function ensureCanvasSize(canvas: HTMLCanvasElement, size: { width: number; height: number } | null) {
+  if (!size?.width || !size.height) return;
+  if (canvas.width !== size.width) canvas.width = size.width;
+  if (canvas.height !== size.height) canvas.height = size.height;
 }
 
-// ---------- math helpers ----------
-type LM = { x: number; y: number; z?: number; visibility?: number };
+/** Where the engine's <video> waits while no page shows a preview (a detached element would pause). */
+function createVideoParking() {
+  const park = document.createElement("div");
+  park.setAttribute("aria-hidden", "true");
+  park.style.cssText = "position:fixed;left:0;top:0;width:1px;height:1px;overflow:hidden;opacity:0;pointer-events:none";
+  document.body.appendChild(park);
+  return park;
+}
 
-const rad2deg = (r: number) => (r * 180) / Math.PI;
+type LM = { x: number; y: number; z?: number; visibility?: number };
 
 function mid(a: LM, b: LM): LM {
-  return {
-    x: (a.x + b.x) / 2,
-    y: (a.y + b.y) / 2,
-    z: a.z != null && b.z != null ? (a.z + b.z) / 2 : undefined,
-  };
+  return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
 }
 
-function angleDeg(a: LM, b: LM) {
-  return rad2deg(Math.atan2(b.y - a.y, b.x - a.x));
-}
+const AVATAR_BG = "rgba(15, 23, 42, 1)";
+const AVATAR_TONE = {
+  good: "rgba(52, 211, 153, 1)",
+  issue: "rgba(251, 191, 36, 1)",
+  unknown: "rgba(148, 163, 184, 1)",
+};
 
-function absDiff(a: number, b: number) {
-  return Math.abs(a - b);
-}
+/**
+ * Privacy-mode preview: an abstract figure rebuilt from landmarks on an
+ * opaque background. Only landmark coordinates are read; no video pixels.
+ */
+function drawAvatar(ctx: CanvasRenderingContext2D, pose: LM[], hipsVisible: boolean, primary: PostureState) {
+  const { width: w, height: h } = ctx.canvas;
+  const color =
+    primary === "good" ? AVATAR_TONE.good : primary === "uncertain" ? AVATAR_TONE.unknown : AVATAR_TONE.issue;
+  const px = (p: LM) => [p.x * w, p.y * h] as const;
+  const seen = (p: LM | undefined): p is LM => p != null && (p.visibility ?? 1) >= 0.5;
 
-function normalizeTo90(angle: number) {
-  let a = ((angle + 180) % 360) - 180; // (-180, 180]
-  if (a > 90) a -= 180;
-  if (a < -90) a += 180;
-  return a;
+  ctx.save();
+  ctx.fillStyle = AVATAR_BG;
+  ctx.fillRect(0, 0, w, h);
+
+  const ls = pose[11];
+  const rs = pose[12];
+  const nose = pose[0];
+  const shoulderMid = mid(ls, rs);
+  const shoulderW = Math.hypot((rs.x - ls.x) * w, (rs.y - ls.y) * h);
+
+  // torso: down to the hips when visible, else off the bottom of the frame
+  const [lh, rh] = hipsVisible
+    ? [pose[23], pose[24]]
+    : [
+        { x: ls.x, y: 1.1 },
+        { x: rs.x, y: 1.1 },
+      ];
+  ctx.fillStyle = color;
+  ctx.globalAlpha = 0.35;
+  ctx.beginPath();
+  ctx.moveTo(...px(ls));
+  ctx.lineTo(...px(rs));
+  ctx.lineTo(...px(rh));
+  ctx.lineTo(...px(lh));
+  ctx.closePath();
+  ctx.fill();
+
+  ctx.globalAlpha = 1;
+  ctx.strokeStyle = color;
+  ctx.lineCap = "round";
+  ctx.lineJoin = "round";
+  ctx.lineWidth = Math.max(6, shoulderW * 0.12);
+  const limb = (...pts: (LM | undefined)[]) => {
+    const vis = pts.filter(seen);
+    if (vis.length < 2) return;
+    ctx.beginPath();
+    ctx.moveTo(...px(vis[0]));
+    for (const p of vis.slice(1)) ctx.lineTo(...px(p));
+    ctx.stroke();
+  };
+  limb(ls, rs);
+  limb(ls, pose[13], pose[15]);
+  limb(rs, pose[14], pose[16]);
+  limb(shoulderMid, nose);
+
+  // head: centered between the ears (nose if they're hidden), sized by ear distance
+  const lEar = pose[7];
+  const rEar = pose[8];
+  const head = seen(lEar) && seen(rEar) ? mid(lEar, rEar) : nose;
+  const earW = seen(lEar) && seen(rEar) ? Math.hypot((rEar.x - lEar.x) * w, (rEar.y - lEar.y) * h) : 0;
+  const r = Math.max(earW * 0.75, shoulderW * 0.28, 12);
+  ctx.beginPath();
+  ctx.arc(...px(head), r, 0, Math.PI * 2);
+  ctx.fillStyle = AVATAR_BG;
+  ctx.fill();
+  ctx.stroke();
+  ctx.restore();
 }
 
 function arraysEqual(a: string[], b: string[]) {
@@ -113,24 +206,55 @@ function arraysEqual(a: string[], b: string[]) {
   return true;
 }
 
-const isBadState = (s: PostureState) => s !== "good" && s !== "no_person";
+/** How long a probe keeps the released camera on while looking for the user. */
+const PROBE_MS = 5000;
+
+/** A worker that crashes again within this long after a restart is not restarted. */
+const WORKER_RESTART_WINDOW_MS = 60_000;
 
 // ---------- main hook ----------
 export function useMonitoringEngine(
   opts: Options = {}
 ): MonitoringEngine & {
-  videoRef: React.RefObject<HTMLVideoElement | null>;
   canvasRef: React.RefObject<HTMLCanvasElement | null>;
+  /** Shows the camera feed inside `host` until the returned detach function runs */
+  attachVideo: (host: HTMLElement, className?: string) => () => void;
 } {
-  const { enableFace = true, fpsCap = 30, drawDebug = true, mirror = true } = opts;
-
-  const videoRef = useRef<HTMLVideoElement>(null);
+  const {
+    enableFace = true,
+    fpsCap = 30,
+    drawDebug = true,
+    mirror = true,
+    record = true,
+    eventLog = 0,
+    settings,
+  } = opts;
+
+  // Engine-owned <video>, created on first use and kept outside React, so detection
+  // survives page navigation; previews borrow it through attachVideo.
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const parkingRef = useRef<HTMLDivElement | null>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const lastPostureAlertAtRef = useRef<number>(0);
+  // source frame size (camera or replay), so a re-mounted canvas gets the right resolution
+  const overlaySizeRef = useRef<{ width: number; height: number } | null>(null);
 
   const streamRef = useRef<MediaStream | null>(null);
-  const poseRef = useRef<Awaited<ReturnType<typeof createPoseLandmarker>> | null>(null);
-  const faceRef = useRef<Awaited<ReturnType<typeof createFaceLandmarker>> | null>(null);
+  const [cameras, setCameras] = useState<CameraDevice[]>([]);
+  // set when the track ends or the device is unplugged; frames stop until it returns
+  const cameraLostRef = useRef(false);
+  const [cameraLost, setCameraLost] = useState(false);
+  // pose/face inference runs in a worker; one frame in flight at a time
+  const inferenceRef = useRef<InferenceClient | null>(null);
+  const inFlightRef = useRef(false);
+  const [backend, setBackend] = useState<Delegate | null>(null);
+  // a second worker crash this soon after the last one stops monitoring instead of restarting
+  const lastWorkerCrashRef = useRef<number | null>(null);
+
+  // Adaptive pose/face rates (settings.power) and the per-second diagnostics they produce
+  const schedulerRef = useRef(createFrameScheduler(settings?.power ?? defaultSettings.power));
+  const faceIntervalRef = useRef(0);
+  const frameStatsRef = useRef({ since: 0, frames: 0, faceFrames: 0, inferenceMs: 0 });
+  const [diagnostics, setDiagnostics] = useState<InferenceDiagnostics | null>(null);
 
   const rafRef = useRef<number | null>(null);
   const lastFrameTsRef = useRef<number>(0);
@@ -138,75 +262,78 @@ export function useMonitoringEngine(
   // RAF reads refs (avoid stale closures)
   const runningRef = useRef(false);
   const pausedRef = useRef(false);
+  const pauseReasonRef = useRef<PauseReason | null>(null);
   const fpsCapRef = useRef(fpsCap);
   const enableFaceRef = useRef(enableFace);
-  const mirrorRef = useRef(mirror);
+  const recordRef = useRef(record);
+
+  // All posture/focus/eye math lives in the analyzer; this hook only feeds it
+  // frames and mirrors its output into React state.
+  const analyzerRef = useRef(
+    createFrameAnalyzer({
+      mirror,
+      profile: resolveDetectionProfile(settings),
+      focus: {
+        focusMode: settings?.focusMode ?? defaultSettings.focusMode,
+        distraction: settings?.distraction ?? defaultSettings.distraction,
+      },
+      smoothing: settings?.smoothing ?? defaultSettings.smoothing,
+      distance: settings?.distance ?? defaultSettings.distance,
+      coach: resolveCoachTiming(settings?.coach),
+    })
+  );
+
+  // Session persistence (sessions / minuteBuckets / events)
+  const recorderRef = useRef(createSessionRecorder());
+
+  // Every MonitoringEvent goes through the bus; the recorder, notifier and `events` log subscribe
+  const busRef = useRef(createEventBus());
+
+  // Landmark capture + replay (replay frames go through the same processFrame)
+  const landmarkRecorderRef = useRef(createLandmarkRecorder());
+  const [isRecordingLandmarks, setIsRecordingLandmarks] = useState(false);
+  const playerRef = useRef<ReplayPlayer | null>(null);
+  const replayMetaRef = useRef<{ recordingId: string; label: string } | null>(null);
+  const [replay, setReplay] = useState<ReplayStatus | null>(null);
 
   const [isRunning, setIsRunning] = useState(false);
   const [isPaused, setIsPaused] = useState(false);
+  const [pauseReason, setPauseReason] = useState<PauseReason | null>(null);
+
+  // Auto-pause: a hidden tab runs on a timer (rAF stops there), a long absence releases
+  // the camera; while released, a probe briefly reopens it to look for the user.
+  const hiddenTimerRef = useRef<number | null>(null);
+  // wall time of the last hidden-tab tick, and whether the browser is stretching ticks past the recorder's max gap
+  const lastHiddenTickRef = useRef<number | null>(null);
+  const throttledRef = useRef(false);
+  const absentSinceRef = useRef<number | null>(null);
+  const probeUntilRef = useRef<number | null>(null);
+  const wakingRef = useRef(false);
 
   const [currentPostureState, setCurrentPostureState] = useState<PostureState>("no_person");
   const [activeStates, setActiveStates] = useState<PostureState[]>([]);
   const [distanceSignal, setDistanceSignal] = useState<number | null>(null);
+  const shownDistanceRef = useRef<number | null>(null);
+  const [focusState, setFocusState] = useState<FocusState | null>(null);
+  const [blinkRate, setBlinkRate] = useState<number | null>(null);
+  const [fatigueScore, setFatigueScore] = useState<number | null>(null);
   const [events, setEvents] = useState<MonitoringEvent[]>([]);
 
-  // Face-distance baseline
-  const baselineFaceRef = useRef<number | null>(null);
-  const baselineFaceSamplesRef = useRef<number[]>([]);
-
-  // Pose baselines (no hips)
-  const baselineShoulderXRef = useRef<number | null>(null);
-  const baselineNeckYRef = useRef<number | null>(null);
-  const baselinePoseSamplesRef = useRef<{ shoulderX: number; neckY: number }[]>([]);
-
-  // Stable issue tracking
-  type Issue = Exclude<PostureState, "good" | "no_person">;
-  const ISSUE_ORDER: Issue[] = [
-    "too_close",
-    "too_far",
-    "head_down",
-    "head_up",
-    "head_tilt_left",
-    "head_tilt_right",
-    "shoulders_unlevel",
-    "shoulders_depth_misaligned",
-    "body_lean_left",
-    "body_lean_right",
-    "back_not_straight",
-    "slouch",
-    "lean_left",
-    "lean_right",
-  ];
-
-  const issueMapRef = useRef<Map<Issue, { since: number | null; lastSeen: number; active: boolean }>>(
-    new Map()
-  );
+  // Calibrated baseline (kv "baseline"); when set, per-run averaging is skipped
+  const [baseline, setBaseline] = useState<PostureBaseline | null>(null);
+  const [calibration, setCalibration] = useState<CalibrationStatus | null>(null);
 
-  const lastPrimaryChangeAtRef = useRef<number>(0);
-  const primaryRef = useRef<PostureState>("no_person");
+  // last values pushed to React state, so unchanged frames don't re-render
+  const shownRef = useRef<{
+    primary: PostureState;
+    focus: FocusState | null;
+    eye: EyeSnapshot | null;
+    calibration: CalibrationStatus | null;
+  }>({ primary: "no_person", focus: null, eye: null, calibration: null });
 
   const didLogPoseOnceRef = useRef(false);
   const didLogFaceOnceRef = useRef(false);
 
-  // ---------------- Coach layer refs ----------------
-  // ✅ DEMO: 15s window + 15s cooldown
-  const coach = {
-    windowMs: 15_000,          // was 120_000
-    badDominanceMs: 10_000,    // was 90_000
-    continuousBadMs: 15_000,   // was 120_000
-    cooldownMs: 15_000,        // was 360_000
-  };
-
-  const coachLastTickRef = useRef<number | null>(null);
-
-  const coachWindowStartRef = useRef<number | null>(null);
-  const coachGoodMsRef = useRef<number>(0);
-  const coachBadMsRef = useRef<number>(0);
-  const coachStateMsRef = useRef<Map<PostureState, number>>(new Map());
-
-  const coachContinuousMsRef = useRef<Map<PostureState, number>>(new Map());
-  const coachLastReminderAtRef = useRef<number>(0);
-
   useEffect(() => {
     fpsCapRef.current = fpsCap;
   }, [fpsCap]);
@@ -216,13 +343,104 @@ export function useMonitoringEngine(
   }, [enableFace]);
 
   useEffect(() => {
-    mirrorRef.current = mirror;
+    analyzerRef.current.configure({ mirror });
   }, [mirror]);
 
+  useEffect(() => {
+    recordRef.current = record;
+  }, [record]);
+
+  // thresholds follow settings without restarting the camera/models
+  const sensitivity = settings?.sensitivity;
+  const postureOverrides = settings?.postureOverrides;
+  useEffect(() => {
+    analyzerRef.current.configure({
+      profile: resolveDetectionProfile({ sensitivity: sensitivity ?? "medium", postureOverrides }),
+    });
+  }, [sensitivity, postureOverrides]);
+
+  const focusMode = settings?.focusMode ?? defaultSettings.focusMode;
+  const distraction = settings?.distraction ?? defaultSettings.distraction;
+  useEffect(() => {
+    analyzerRef.current.configure({ focus: { focusMode, distraction } });
+  }, [focusMode, distraction]);
+
+  const smoothing = settings?.smoothing ?? defaultSettings.smoothing;
+  const showRawRef = useRef(smoothing.showRaw);
+  useEffect(() => {
+    analyzerRef.current.configure({ smoothing });
+    showRawRef.current = smoothing.showRaw;
+  }, [smoothing]);
+
+  // privacy mode: the overlay becomes an avatar on an opaque background (the page hides the <video>)
+  const privacyMode = settings?.privacyMode ?? defaultSettings.privacyMode;
+  const privacyRef = useRef(privacyMode);
+  useEffect(() => {
+    privacyRef.current = privacyMode;
+  }, [privacyMode]);
+
+  const distanceSettings = settings?.distance ?? defaultSettings.distance;
+  useEffect(() => {
+    analyzerRef.current.configure({ distance: distanceSettings });
+  }, [distanceSettings]);
+
+  const coachSettings = settings?.coach;
+  useEffect(() => {
+    analyzerRef.current.configure({ coach: resolveCoachTiming(coachSettings) });
+  }, [coachSettings]);
+
+  const power = settings?.power ?? defaultSettings.power;
+  useEffect(() => {
+    schedulerRef.current.configure(power);
+  }, [power]);
+
+  useEffect(() => watchBattery((onBattery) => schedulerRef.current.setOnBattery(onBattery)), []);
+
+  const autoPause = settings?.autoPause ?? defaultSettings.autoPause;
+  const autoPauseRef = useRef(autoPause);
+  useEffect(() => {
+    autoPauseRef.current = autoPause;
+  }, [autoPause]);
+
+  const cameraSettings = settings?.camera ?? defaultSettings.camera;
+  const cameraSettingsRef = useRef(cameraSettings);
+
+  // backend/model are read on start(); changing them needs a restart
+  const inferenceSettings = settings?.inference ?? defaultSettings.inference;
+  const inferenceSettingsRef = useRef(inferenceSettings);
+  useEffect(() => {
+    inferenceSettingsRef.current = inferenceSettings;
+  }, [inferenceSettings]);
+
   const emit = useCallback((e: MonitoringEvent) => {
-    setEvents((prev) => [e, ...prev].slice(0, 200));
+    busRef.current.emit(playerRef.current ? { ...e, replay: true } : e);
   }, []);
 
+  const on = useCallback(
+    <T extends MonitoringEventType>(type: T, handler: (e: MonitoringEventOf<T>) => void) =>
+      busRef.current.on(type, handler),
+    []
+  );
+
+  const onAny = useCallback((handler: (e: MonitoringEvent) => void) => busRef.current.onAny(handler), []);
+
+  useEffect(
+    () =>
+      busRef.current.onAny((e) => {
+        // replayed sessions never end up in stats
+        if (!playerRef.current) recorderRef.current.record(e);
+      }),
+    []
+  );
+
+  useEffect(() => {
+    if (eventLog <= 0) {
+      setEvents([]);
+      return;
+    }
+    return busRef.current.onAny((e) => setEvents((prev) => [e, ...prev].slice(0, eventLog)));
+  }, [eventLog]);
+
   const clearOverlay = useCallback(() => {
     const canvas = canvasRef.current;
     if (!canvas) return;
@@ -231,548 +449,941 @@ export function useMonitoringEngine(
     ctx.clearRect(0, 0, canvas.width, canvas.height);
   }, []);
 
+  const resetView = useCallback((primary: PostureState) => {
+    shownRef.current = { primary, focus: null, eye: null, calibration: null };
+    shownDistanceRef.current = null;
+    setCurrentPostureState(primary);
+    setActiveStates([]);
+    setDistanceSignal(null);
+    setFocusState(null);
+    setBlinkRate(null);
+    setFatigueScore(null);
+    setCalibration(null);
+  }, []);
+
+  const stopHiddenTicker = useCallback(() => {
+    if (hiddenTimerRef.current != null) window.clearInterval(hiddenTimerRef.current);
+    hiddenTimerRef.current = null;
+    lastHiddenTickRef.current = null;
+    if (throttledRef.current) {
+      throttledRef.current = false;
+      if (runningRef.current) emit({ type: "monitoring_resumed", ts: Date.now(), payload: { reason: "throttled" } });
+    }
+  }, [emit]);
+
   const stop = useCallback(() => {
     runningRef.current = false;
     pausedRef.current = false;
+    pauseReasonRef.current = null;
     setIsRunning(false);
     setIsPaused(false);
+    setPauseReason(null);
 
     if (rafRef.current) cancelAnimationFrame(rafRef.current);
     rafRef.current = null;
+    stopHiddenTicker();
+    absentSinceRef.current = null;
+    probeUntilRef.current = null;
 
-    poseRef.current?.close();
-    faceRef.current?.close();
-    poseRef.current = null;
-    faceRef.current = null;
+    inferenceRef.current?.close();
+    inferenceRef.current = null;
+    inFlightRef.current = false;
+    setBackend(null);
+    schedulerRef.current.reset();
+    setDiagnostics(null);
 
     streamRef.current?.getTracks().forEach((t) => t.stop());
     streamRef.current = null;
+    cameraLostRef.current = false;
+    setCameraLost(false);
 
-    baselineFaceRef.current = null;
-    baselineFaceSamplesRef.current = [];
-    baselineShoulderXRef.current = null;
-    baselineNeckYRef.current = null;
-    baselinePoseSamplesRef.current = [];
+    recorderRef.current.end().catch((err) => console.warn("[recorder] endSession failed", err));
+    if (landmarkRecorderRef.current.active) {
+      landmarkRecorderRef.current.stop().catch((err) => console.warn("[landmarks] save failed", err));
+      setIsRecordingLandmarks(false);
+    }
 
-    issueMapRef.current.clear();
-    setActiveStates([]);
+    playerRef.current = null;
+    replayMetaRef.current = null;
+    setReplay(null);
 
-    setDistanceSignal(null);
-    setCurrentPostureState("no_person");
-    primaryRef.current = "no_person";
+    analyzerRef.current.reset();
+    resetView("no_person");
 
     didLogPoseOnceRef.current = false;
     didLogFaceOnceRef.current = false;
 
-    // coach reset
-    coachLastTickRef.current = null;
-    coachWindowStartRef.current = null;
-    coachGoodMsRef.current = 0;
-    coachBadMsRef.current = 0;
-    coachStateMsRef.current.clear();
-    coachContinuousMsRef.current.clear();
-    coachLastReminderAtRef.current = 0;
-    lastPostureAlertAtRef.current = 0; // ✅ add
-
     clearOverlay();
-  }, [clearOverlay]);
+  }, [clearOverlay, resetView, stopHiddenTicker]);
+
+  const pauseFor = useCallback(
+    (reason: PauseReason) => {
+      if (!runningRef.current || playerRef.current || pauseReasonRef.current) return;
+      pausedRef.current = true;
+      pauseReasonRef.current = reason;
+      setIsPaused(true);
+      setPauseReason(reason);
+      setDiagnostics(null);
+      // paused time belongs to no posture state
+      recorderRef.current.hold(Date.now());
+      emit({ type: "monitoring_paused", ts: Date.now(), payload: { reason } });
+    },
+    [emit]
+  );
 
-  const pause = useCallback(() => {
-    pausedRef.current = !pausedRef.current;
-    setIsPaused(pausedRef.current);
+  const refreshCameras = useCallback(async () => {
+    try {
+      const list = await listCameras();
+      setCameras(list);
+      return list;
+    } catch (err) {
+      console.warn("[camera] enumerateDevices failed", err);
+      return [];
+    }
   }, []);
 
-  // thresholds
-  const TH = {
-    headRollDeg: 12,
-    headPitchDown: 0.060,
-    headPitchUp: 0.030,
-    shouldersUnevenY: 0.030,
-    shouldersDepthZ: 0.14,
-    forwardHeadZ: 0.18,
-    bodyLeanX: 0.050,
-    slouchNeckRatio: 0.75,
-    slouchNeckHardMin: 0.12,
-    tooCloseMul: 1.35,
-    tooFarMul: 0.75,
-  };
+  // Unplugged / ended: stop crediting time and drop the stale view until it comes back.
+  const markCameraLost = useCallback(() => {
+    if (!runningRef.current || cameraLostRef.current) return;
+    cameraLostRef.current = true;
+    setCameraLost(true);
+    recorderRef.current.hold(Date.now());
+    const label = streamRef.current?.getVideoTracks()[0]?.label;
+    emit({ type: "camera_lost", ts: Date.now(), payload: { label } });
+    analyzerRef.current.reset();
+    resetView("no_person");
+    clearOverlay();
+  }, [clearOverlay, emit, resetView]);
 
-  // stability filter params
-  const STABLE = {
-    persistMs: 450,
-    clearMs: 650,
-    alertCooldownMs: 15000, // ✅ 15s (was 3500)
-  };
+  const getVideo = useCallback(() => {
+    if (videoRef.current) return videoRef.current;
+    parkingRef.current ??= createVideoParking();
+    const video = document.createElement("video");
+    video.playsInline = true;
+    video.muted = true;
+    parkingRef.current.appendChild(video);
+    videoRef.current = video;
+    return video;
+  }, []);
 
-  function updateStableIssues(now: number, candidates: Issue[]) {
-    const map = issueMapRef.current;
-    const cand = new Set<Issue>(candidates);
+  const attachVideo = useCallback(
+    (host: HTMLElement, className = "") => {
+      const video = getVideo();
+      video.className = className;
+      host.prepend(video);
+      // some browsers pause a media element that moves in the DOM
+      if (video.srcObject) video.play().catch(() => {});
+      return () => {
+        if (video.parentElement !== host) return;
+        video.className = "";
+        parkingRef.current?.appendChild(video);
+        if (video.srcObject) video.play().catch(() => {});
+      };
+    },
+    [getVideo]
+  );
 
-    for (const issue of ISSUE_ORDER) {
-      const prev = map.get(issue) ?? { since: null as number | null, lastSeen: 0, active: false };
+  const attachStream = useCallback(
+    async (stream: MediaStream) => {
+      const video = getVideo();
 
-      if (cand.has(issue)) {
-        if (prev.since == null) prev.since = now;
-        prev.lastSeen = now;
+      const prev = streamRef.current;
+      streamRef.current = stream;
+      if (prev && prev !== stream) prev.getTracks().forEach((t) => t.stop());
 
-        if (!prev.active && now - prev.since >= STABLE.persistMs) {
-          prev.active = true;
-        }
-      } else {
-        if (prev.active) {
-          if (now - prev.lastSeen >= STABLE.clearMs) {
-            prev.active = false;
-            prev.since = null;
-          }
-        } else {
-          prev.since = null;
-        }
-      }
+      stream.getVideoTracks()[0]?.addEventListener("ended", () => {
+        if (streamRef.current === stream) markCameraLost();
+      });
 
-      map.set(issue, prev);
-    }
+      video.srcObject = stream;
+      video.playsInline = true;
+      video.muted = true;
+      await video.play();
+      overlaySizeRef.current = { width: video.videoWidth, height: video.videoHeight };
+      analyzerRef.current.configure({ frameSize: overlaySizeRef.current });
+    },
+    [getVideo, markCameraLost]
+  );
 
-    return ISSUE_ORDER.filter((i) => map.get(i)?.active) as PostureState[];
-  }
-
-  function pickPrimary(actives: PostureState[]): PostureState {
-    for (const p of ISSUE_ORDER) if (actives.includes(p)) return p;
-    return "good";
-  }
-
-  function coachTick(
-    now: number,
-    actives: PostureState[],
-    primary: PostureState,
-    metrics: PostureMetrics,
-    flags: PostureFlags
-  ) {
-    // Don’t coach if no person
-    if (primary === "no_person") return;
-
-    // initialize tick
-    if (coachLastTickRef.current == null) {
-      coachLastTickRef.current = now;
-      coachWindowStartRef.current = now;
+  const reconnectCamera = useCallback(async () => {
+    const stream = await openCamera(cameraSettingsRef.current);
+    if (!runningRef.current) {
+      stream.getTracks().forEach((t) => t.stop());
       return;
     }
+    await attachStream(stream);
+    analyzerRef.current.reset();
+    lastFrameTsRef.current = 0;
+    if (cameraLostRef.current) {
+      cameraLostRef.current = false;
+      setCameraLost(false);
+      emit({ type: "camera_restored", ts: Date.now(), payload: { label: stream.getVideoTracks()[0]?.label } });
+    }
+  }, [attachStream, emit]);
 
-    const dt = Math.max(0, now - coachLastTickRef.current);
-    coachLastTickRef.current = now;
+  // Stopping the tracks (not just skipping frames) is what turns the camera light off.
+  const releaseCamera = useCallback(() => {
+    streamRef.current?.getTracks().forEach((t) => t.stop());
+    streamRef.current = null;
+    if (videoRef.current) videoRef.current.srcObject = null;
+    probeUntilRef.current = null;
+    pausedRef.current = true;
+    analyzerRef.current.reset();
+    resetView("no_person");
+    clearOverlay();
+  }, [clearOverlay, resetView]);
+
+  /** Reopens a released camera; false if it failed or monitoring moved on meanwhile. */
+  const wakeCamera = useCallback(async () => {
+    if (streamRef.current) return true;
+    if (wakingRef.current) return false;
+    wakingRef.current = true;
+    try {
+      const stream = await openCamera(cameraSettingsRef.current);
+      if (!runningRef.current || pauseReasonRef.current !== "absent") {
+        stream.getTracks().forEach((t) => t.stop());
+        return false;
+      }
+      await attachStream(stream);
+      analyzerRef.current.reset();
+      schedulerRef.current.reset();
+      lastFrameTsRef.current = 0;
+      frameStatsRef.current = { since: performance.now(), frames: 0, faceFrames: 0, inferenceMs: 0 };
+      return true;
+    } catch (err) {
+      console.warn("[camera] reopen failed", err);
+      return false;
+    } finally {
+      wakingRef.current = false;
+    }
+  }, [attachStream]);
 
-    // init window
-    if (coachWindowStartRef.current == null) coachWindowStartRef.current = now;
+  const resume = useCallback(async () => {
+    const reason = pauseReasonRef.current;
+    if (!reason) return;
+    if (reason === "absent" && !(await wakeCamera())) return;
+    pausedRef.current = false;
+    pauseReasonRef.current = null;
+    probeUntilRef.current = null;
+    absentSinceRef.current = null;
+    lastFrameTsRef.current = 0;
+    frameStatsRef.current = { since: performance.now(), frames: 0, faceFrames: 0, inferenceMs: 0 };
+    setIsPaused(false);
+    setPauseReason(null);
+    if (reason === "absent") resetView("good");
+    emit({ type: "monitoring_resumed", ts: Date.now(), payload: { reason } });
+  }, [emit, resetView, wakeCamera]);
+
+  const pause = useCallback(() => {
+    if (pauseReasonRef.current) resume().catch((err) => console.warn("[monitor] resume failed", err));
+    else pauseFor("manual");
+  }, [pauseFor, resume]);
+
+  // While released: open the camera for PROBE_MS and let frames through without recording.
+  const probe = useCallback(async () => {
+    if (pauseReasonRef.current !== "absent" || probeUntilRef.current != null) return;
+    if (!(await wakeCamera())) return;
+    const until = performance.now() + PROBE_MS;
+    probeUntilRef.current = until;
+    pausedRef.current = false;
+    // a timer rather than the frame loop, which may not run at all in a hidden tab
+    window.setTimeout(() => {
+      if (probeUntilRef.current === until) releaseCamera();
+    }, PROBE_MS);
+  }, [releaseCamera, wakeCamera]);
+
+  // Live frames only: adapt the rates to what was seen and publish diagnostics once a second.
+  const observeFrame = useCallback((res: FrameResult, a: FrameAnalysis) => {
+    const scheduler = schedulerRef.current;
+    const targetFps = scheduler.observe(res.ts, {
+      primary: a.primary,
+      actives: a.actives,
+      candidates: a.candidates,
+      calibrating: analyzerRef.current.calibrating,
+    });
+    // a slower rate spaces ticks further apart; the recorder should still credit them
+    const frameMs =
+      hiddenTimerRef.current != null
+        ? 1000 / Math.max(0.1, autoPauseRef.current.hiddenFps)
+        : 1000 / Math.min(targetFps, fpsCapRef.current);
+    recorderRef.current.setMaxGap(3 * frameMs);
+
+    const faceIntervalMs = Math.round(scheduler.faceIntervalMs());
+    if (faceIntervalMs !== faceIntervalRef.current) {
+      faceIntervalRef.current = faceIntervalMs;
+      analyzerRef.current.configure({ faceIntervalMs });
+    }
 
-    // update good/bad window accumulation
-    const badNow = actives.some(isBadState);
-    if (badNow) coachBadMsRef.current += dt;
-    else coachGoodMsRef.current += dt;
+    const stats = frameStatsRef.current;
+    stats.frames++;
+    if (res.faceRan) stats.faceFrames++;
+    stats.inferenceMs += res.inferenceMs;
+    const elapsed = res.ts - stats.since;
+    if (elapsed < 1000) return;
+    setDiagnostics({
+      fps: Math.round((stats.frames * 10_000) / elapsed) / 10,
+      faceFps: Math.round((stats.faceFrames * 10_000) / elapsed) / 10,
+      targetFps: Math.round(Math.min(targetFps, fpsCapRef.current) * 10) / 10,
+      inferenceMs: Math.round((stats.inferenceMs / stats.frames) * 10) / 10,
+      onBattery: scheduler.onBattery,
+    });
+    frameStatsRef.current = { since: res.ts, frames: 0, faceFrames: 0, inferenceMs: 0 };
+  }, []);
 
-    // per-state time (only count active issues; if none -> count "good")
-    if (actives.length === 0) {
-      coachStateMsRef.current.set("good", (coachStateMsRef.current.get("good") ?? 0) + dt);
-    } else {
-      for (const s of actives) {
-        coachStateMsRef.current.set(s, (coachStateMsRef.current.get(s) ?? 0) + dt);
+  // Live frames only: someone in view resumes a probe, a long enough absence releases the camera.
+  const trackPresence = useCallback(
+    (a: FrameAnalysis) => {
+      const present = a.primary !== "no_person";
+      if (probeUntilRef.current != null) {
+        if (present) resume().catch((err) => console.warn("[monitor] resume failed", err));
+        return;
       }
-    }
+      if (present) {
+        absentSinceRef.current = null;
+        return;
+      }
+      absentSinceRef.current ??= a.ts;
+      const releaseAfterMs = autoPauseRef.current.releaseAfterMin * 60_000;
+      if (releaseAfterMs > 0 && a.ts - absentSinceRef.current >= releaseAfterMs) {
+        absentSinceRef.current = null;
+        pauseFor("absent");
+        releaseCamera();
+      }
+    },
+    [pauseFor, releaseCamera, resume]
+  );
 
-    // continuous tracking: add dt to each active, reset inactive
-    const cont = coachContinuousMsRef.current;
-    const activeSet = new Set(actives.length ? actives : (["good"] as PostureState[]));
+  const drawOverlay = useCallback(
+    (a: FrameAnalysis) => {
+      const canvas = canvasRef.current;
+      if (!canvas || !a.pose) return;
 
-    // keep map small (just things we care about)
-    const keys = new Set<PostureState>([...cont.keys(), ...activeSet]);
-    keys.forEach((k) => {
-      const prev = cont.get(k) ?? 0;
-      if (activeSet.has(k)) cont.set(k, prev + dt);
-      else cont.set(k, 0);
-    });
+      ensureCanvasSize(canvas, overlaySizeRef.current);
+      const ctx = canvas.getContext("2d");
+      if (!ctx) return;
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
 
-    const cooledDown = now - coachLastReminderAtRef.current >= coach.cooldownMs;
-
-    // Immediate reminder: a BAD state continuously for 2 min
-    if (cooledDown) {
-      for (const s of actives) {
-        if (isBadState(s) && (cont.get(s) ?? 0) >= coach.continuousBadMs) {
-          coachLastReminderAtRef.current = now;
-          emit({
-            type: "coach_reminder",
-            ts: Date.now(),
-            payload: {
-              states: actives,
-              primary,
-              windowMs: coach.windowMs,
-              goodMs: coachGoodMsRef.current,
-              badMs: coachBadMsRef.current,
-              topBad: s,
-              metrics,
-              flags,
-            },
-          });
-          // reset continuous for that state so it won't fire again immediately
-          cont.set(s, 0);
-          return;
-        }
+      if (privacyRef.current) {
+        drawAvatar(ctx, a.pose, a.hipsVisible, a.primary);
+        return;
       }
-    }
 
-    // Window-end reminder: bad dominated last 2 minutes
-    const windowStart = coachWindowStartRef.current;
-    const elapsed = windowStart ? now - windowStart : 0;
-
-    if (elapsed >= coach.windowMs) {
-      // choose top bad in window
-      let topBad: PostureState | undefined = undefined;
-      let topMs = 0;
-      for (const [k, ms] of coachStateMsRef.current.entries()) {
-        if (isBadState(k) && ms > topMs) {
-          topMs = ms;
-          topBad = k;
+      const lm = (i: number): LM => a.pose![i];
+      const nose = lm(0);
+      const lEye = lm(2);
+      const rEye = lm(5);
+      const lEar = lm(7);
+      const rEar = lm(8);
+      const ls = lm(11);
+      const rs = lm(12);
+      const shoulderMid = mid(ls, rs);
+
+      drawLine(ctx, ls, rs, canvas.width, canvas.height);
+      drawLine(ctx, lEar, rEar, canvas.width, canvas.height);
+      drawLine(ctx, lEye, rEye, canvas.width, canvas.height);
+      drawLine(ctx, nose, shoulderMid, canvas.width, canvas.height);
+
+      const pts = [nose, lEye, rEye, lEar, rEar, ls, rs, shoulderMid, mid(lEar, rEar), mid(lEye, rEye)];
+      if (a.hipsVisible) {
+        const lh = lm(23);
+        const rh = lm(24);
+        const hipMid = mid(lh, rh);
+        drawLine(ctx, lh, rh, canvas.width, canvas.height);
+        drawLine(ctx, shoulderMid, hipMid, canvas.width, canvas.height);
+        pts.push(lh, rh, hipMid);
+      }
+      for (const p of pts) drawPoint(ctx, p.x, p.y, canvas.width, canvas.height, p === nose ? 7 : 6);
+      // raw (unsmoothed) points on top, to see what the filter removes
+      if (showRawRef.current && a.rawPose && a.rawPose !== a.pose) {
+        for (const i of [0, 2, 5, 7, 8, 11, 12, ...(a.hipsVisible ? [23, 24] : [])]) {
+          const p = a.rawPose[i];
+          drawPoint(ctx, p.x, p.y, canvas.width, canvas.height, 3, "rgba(251, 191, 36, 1)");
         }
       }
 
-      if (cooledDown && coachBadMsRef.current >= coach.badDominanceMs) {
-        coachLastReminderAtRef.current = now;
-        emit({
-          type: "coach_reminder",
-          ts: Date.now(),
-          payload: {
-            states: actives.length ? actives : ["good"],
-            primary: actives.length ? primary : "good",
-            windowMs: coach.windowMs,
-            goodMs: coachGoodMsRef.current,
-            badMs: coachBadMsRef.current,
-            topBad,
-            metrics,
-            flags,
-          },
-        });
+      ctx.save();
+      ctx.fillStyle = "rgba(255,255,255,1)";
+      ctx.font = "16px sans-serif";
+      ctx.fillText(`Primary: ${a.primary}`, 10, 22);
+      ctx.fillText(`Active: ${a.actives.length ? a.actives.join(", ") : "none"}`, 10, 44);
+      if (a.unchecked.length) ctx.fillText(`Can't check: ${a.unchecked.join(", ")}`, 10, 66);
+      ctx.restore();
+    },
+    []
+  );
+
+  // Everything after inference: analysis, React state, recorder, events, overlay.
+  const processFrame = useCallback(
+    (res: FrameResult) => {
+      const a = analyzerRef.current.analyze(res);
+      const shown = shownRef.current;
+
+      if (a.primary !== shown.primary) {
+        shown.primary = a.primary;
+        setCurrentPostureState(a.primary);
       }
+      setActiveStates((prev) => (arraysEqual(prev, a.actives) ? prev : a.actives));
 
-      // reset window
-      coachWindowStartRef.current = now;
-      coachGoodMsRef.current = 0;
-      coachBadMsRef.current = 0;
-      coachStateMsRef.current.clear();
-    }
-  }
+      if (a.focus !== shown.focus) {
+        shown.focus = a.focus;
+        setFocusState(a.focus);
+      }
 
-  const loop = useCallback(() => {
-    rafRef.current = requestAnimationFrame(loop);
-    if (!runningRef.current || pausedRef.current) return;
+      if (a.eye !== shown.eye) {
+        shown.eye = a.eye;
+        setBlinkRate(a.eye ? Math.round(a.eye.blinksPerMin) : null);
+        setFatigueScore(a.eye ? a.eye.fatigue : null);
+      }
 
-    const video = videoRef.current;
-    const pose = poseRef.current;
-    if (!video || !pose) return;
+      // whole centimetres, so unchanged frames don't re-render
+      const cm = a.distanceCm != null ? Math.round(a.distanceCm) : null;
+      if (cm !== shownDistanceRef.current) {
+        shownDistanceRef.current = cm;
+        setDistanceSignal(cm);
+      }
 
-    const now = performance.now();
-    const cap = fpsCapRef.current;
-    const minDelta = 1000 / cap;
-    if (now - lastFrameTsRef.current < minDelta) return;
-    lastFrameTsRef.current = now;
+      if (a.faceArea != null) {
+        if (!didLogFaceOnceRef.current) {
+          didLogFaceOnceRef.current = true;
+          console.log("[FACE] faceAreaSignal:", a.faceArea);
+        }
+      }
 
-    const poseRes: any = pose.detectForVideo(video, now);
-    const raw: LM[] | null =
-      poseRes.landmarks?.[0] ??
-      poseRes.poseLandmarks?.[0] ??
-      poseRes.worldLandmarks?.[0] ??
-      null;
-
-    if (!raw || raw.length < 13) {
-      if (primaryRef.current !== "no_person") {
-        primaryRef.current = "no_person";
-        setCurrentPostureState("no_person");
-        setActiveStates([]);
-        emit({ type: "person_lost", ts: Date.now(), payload: {} });
+      const cal = a.calibration;
+      const prevCal = shown.calibration;
+      if (
+        cal &&
+        (!prevCal ||
+          prevCal.phase !== cal.phase ||
+          Math.abs(prevCal.progress - cal.progress) >= 0.05 ||
+          !arraysEqual(prevCal.problems, cal.problems))
+      ) {
+        shown.calibration = cal;
+        setCalibration(cal);
       }
-      if (drawDebug) clearOverlay();
-      return;
-    }
 
-    const MIRROR = mirrorRef.current;
-    const lm = (i: number): LM => {
-      const p = raw[i];
-      return MIRROR ? { ...p, x: 1 - p.x } : p;
-    };
+      if (a.metrics && !didLogPoseOnceRef.current) {
+        didLogPoseOnceRef.current = true;
+        console.log(
+          "[POSE] rollDeg:",
+          a.metrics.rollDeg.toFixed(2),
+          "noseEyeDeltaY:",
+          a.metrics.noseEyeDeltaY.toFixed(3)
+        );
+      }
 
-    // key points
-    const nose = lm(0);
-    const lEye = lm(2);
-    const rEye = lm(5);
-    const lEar = lm(7);
-    const rEar = lm(8);
-    const ls = lm(11);
-    const rs = lm(12);
-
-    // visibility gate only on shoulders
-    const visVals = [ls.visibility, rs.visibility].filter((v): v is number => typeof v === "number");
-    const minVis = visVals.length ? Math.min(...visVals) : 1;
-    if (minVis < 0.05) return;
-
-    const shoulderMid = mid(ls, rs);
-    const eyeMid = mid(lEye, rEye);
-    const earMid = mid(lEar, rEar);
-
-    // --- head roll ---
-    const rollDeg = normalizeTo90(angleDeg(lEar, rEar));
-    const headTiltLeft = rollDeg < -TH.headRollDeg;
-    const headTiltRight = rollDeg > TH.headRollDeg;
-
-    // --- head up/down ---
-    const noseEyeDeltaY = nose.y - eyeMid.y;
-    const headDown = noseEyeDeltaY > TH.headPitchDown;
-    const headUp = noseEyeDeltaY < TH.headPitchUp;
-
-    // --- shoulders ---
-    const shouldersUneven = absDiff(ls.y, rs.y) > TH.shouldersUnevenY;
-    const shouldersDepthMisaligned = Math.abs((ls.z ?? 0) - (rs.z ?? 0)) > TH.shouldersDepthZ;
-
-    // --- forward head / slouch proxy (no hips) ---
-    const shoulderZ = shoulderMid.z ?? 0;
-    const noseZ = nose.z ?? 0;
-    const forwardHead = (shoulderZ - noseZ) > TH.forwardHeadZ;
-
-    const neckY = nose.y - shoulderMid.y;
-
-    if (baselineShoulderXRef.current == null || baselineNeckYRef.current == null) {
-      baselinePoseSamplesRef.current.push({ shoulderX: shoulderMid.x, neckY });
-      if (baselinePoseSamplesRef.current.length >= 60) {
-        baselineShoulderXRef.current =
-          baselinePoseSamplesRef.current.reduce((a, s) => a + s.shoulderX, 0) /
-          baselinePoseSamplesRef.current.length;
-        baselineNeckYRef.current =
-          baselinePoseSamplesRef.current.reduce((a, s) => a + s.neckY, 0) /
-          baselinePoseSamplesRef.current.length;
+      // probe frames only look for the user; the released time stays unrecorded
+      if (!playerRef.current && probeUntilRef.current == null) {
+        // tick first: it closes the previous minute, so the blink lands in the right one
+        recorderRef.current.tick(a.wallTs, {
+          primary: a.primary,
+          actives: a.actives,
+          focus: a.focus,
+          fatigue: a.focus && a.focus !== "away" ? a.eye?.fatigue ?? null : null,
+          severity: a.metrics?.severity,
+        });
+        if (a.blinkMs != null) recorderRef.current.countBlink(a.wallTs);
       }
-    }
 
-    const neckBaseline = baselineNeckYRef.current;
-    const slouchProxy =
-      (neckBaseline != null && neckY < neckBaseline * TH.slouchNeckRatio) ||
-      (neckBaseline == null && neckY < TH.slouchNeckHardMin);
-
-    // --- body lean left/right (screen-based) ---
-    const baseX = baselineShoulderXRef.current;
-    const bodyOffsetX = baseX != null ? shoulderMid.x - baseX : shoulderMid.x - 0.5;
-    const isBodyLeaningLeft = bodyOffsetX < -TH.bodyLeanX;
-    const isBodyLeaningRight = bodyOffsetX > TH.bodyLeanX;
-
-    // --- distance (face) ---
-    let tooClose = false;
-    let tooFar = false;
-    let faceArea: number | null = null;
-
-    if (enableFaceRef.current && faceRef.current) {
-      const faceRes: any = faceRef.current.detectForVideo(video, now);
-      const faceLandmarks = faceRes.faceLandmarks?.[0];
-      if (faceLandmarks?.length) {
-        faceArea = faceAreaSignal(faceLandmarks);
-        setDistanceSignal(faceArea);
+      a.events.forEach(emit);
 
-        if (!didLogFaceOnceRef.current) {
-          didLogFaceOnceRef.current = true;
-          console.log("[FACE] landmarks length:", faceLandmarks.length);
-          console.log("[FACE] faceAreaSignal:", faceArea);
-        }
+      if (drawDebug || privacyRef.current) {
+        if (a.pose) drawOverlay(a);
+        else clearOverlay();
+      }
+      return a;
+    },
+    [clearOverlay, drawDebug, drawOverlay, emit]
+  );
 
-        if (baselineFaceRef.current == null) {
-          baselineFaceSamplesRef.current.push(faceArea);
-          if (baselineFaceSamplesRef.current.length >= 60) {
-            baselineFaceRef.current =
-              baselineFaceSamplesRef.current.reduce((a, b) => a + b, 0) /
-              baselineFaceSamplesRef.current.length;
-          }
-        } else {
-          const baseline = baselineFaceRef.current;
-          tooClose = faceArea > baseline * TH.tooCloseMul;
-          tooFar = faceArea < baseline * TH.tooFarMul;
-        }
+  const publishReplay = useCallback((player: ReplayPlayer) => {
+    const meta = replayMetaRef.current;
+    if (!meta) return;
+    const next: ReplayStatus = {
+      ...meta,
+      positionMs: player.positionMs,
+      durationMs: player.durationMs,
+      playing: player.playing,
+      speed: player.speed,
+    };
+    setReplay((prev) =>
+      prev &&
+      prev.playing === next.playing &&
+      prev.speed === next.speed &&
+      Math.abs(prev.positionMs - next.positionMs) < 250
+        ? prev
+        : next
+    );
+  }, []);
+
+  // A crashed worker is replaced once; crashing again within WORKER_RESTART_WINDOW_MS stops monitoring.
+  const recoverInference = useCallback(
+    (dead: InferenceClient, err: Error) => {
+      if (inferenceRef.current !== dead) return;
+      // step() idles while inferenceRef is empty
+      inferenceRef.current = null;
+      dead.close();
+      console.warn("[inference] worker crashed", err);
+
+      const fail = (reason: Error) => {
+        stop();
+        toast.error("Detection stopped", { description: reason.message });
+      };
+      const now = Date.now();
+      const recent = lastWorkerCrashRef.current != null && now - lastWorkerCrashRef.current < WORKER_RESTART_WINDOW_MS;
+      lastWorkerCrashRef.current = now;
+      if (recent) {
+        fail(err);
+        return;
       }
-    }
 
-    if (!didLogPoseOnceRef.current) {
-      didLogPoseOnceRef.current = true;
-      console.log("[POSE] rollDeg:", rollDeg.toFixed(2), "noseEyeDeltaY:", noseEyeDeltaY.toFixed(3));
-      console.log("[POSE] mirror:", MIRROR);
+      const next = createInferenceClient();
+      next
+        .init({ enableFace: enableFaceRef.current, ...inferenceSettingsRef.current })
+        .then((delegate) => {
+          // stopped (or restarted) meanwhile
+          if (!runningRef.current || inferenceRef.current) {
+            next.close();
+            return;
+          }
+          inferenceRef.current = next;
+          inFlightRef.current = false;
+          setBackend(delegate);
+        })
+        .catch((initErr) => {
+          next.close();
+          if (runningRef.current && !inferenceRef.current) fail(initErr);
+        });
+    },
+    [stop]
+  );
+
+  // One scheduling tick: the rAF loop while visible, hiddenTimerRef while a hidden tab runs on "reduce".
+  const step = useCallback(() => {
+    const player = playerRef.current;
+    if (player) {
+      for (const f of player.advance(performance.now())) processFrame({ ...f, inferenceMs: 0 });
+      publishReplay(player);
+      return;
     }
 
-    // ----- collect ALL candidate issues -----
-    type Issue = Exclude<PostureState, "good" | "no_person">;
-    const candidates: Issue[] = [];
+    if (!runningRef.current || pausedRef.current || cameraLostRef.current) return;
 
-    if (tooClose) candidates.push("too_close");
-    if (tooFar) candidates.push("too_far");
+    const video = videoRef.current;
+    const inference = inferenceRef.current;
+    if (inference?.failed) {
+      recoverInference(inference, inference.failed);
+      return;
+    }
+    if (!video || !inference || inFlightRef.current) return;
+    if (video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) return;
+
+    const now = performance.now();
+    const cap = Math.min(fpsCapRef.current, schedulerRef.current.fps);
+    const minDelta = 1000 / cap;
+    if (now - lastFrameTsRef.current < minDelta) return;
+    lastFrameTsRef.current = now;
 
-    if (headDown) candidates.push("head_down");
-    if (headUp) candidates.push("head_up");
-    if (headTiltLeft) candidates.push("head_tilt_left");
-    if (headTiltRight) candidates.push("head_tilt_right");
+    // Slow devices drop frames instead of queueing them behind the worker.
+    // The bitmap is transferred to the worker and closed after inference:
+    // frame pixels are never drawn to a canvas or kept (privacy mode relies on this).
+    const runFace = enableFaceRef.current && schedulerRef.current.takeFace(now);
+    inFlightRef.current = true;
+    createImageBitmap(video)
+      .then((frame) => inference.detect(frame, now, runFace))
+      .then((res) => {
+        if (!runningRef.current || pausedRef.current || inferenceRef.current !== inference) return;
+        landmarkRecorderRef.current.add(res);
+        const a = processFrame(res);
+        observeFrame(res, a);
+        trackPresence(a);
+      })
+      .catch((err) => {
+        if (runningRef.current) console.warn("[inference] frame failed", err);
+      })
+      .finally(() => {
+        if (inferenceRef.current === inference) inFlightRef.current = false;
+      });
+  }, [observeFrame, processFrame, publishReplay, recoverInference, trackPresence]);
 
-    if (shouldersUneven) candidates.push("shoulders_unlevel");
-    if (shouldersDepthMisaligned) candidates.push("shoulders_depth_misaligned");
+  const loop = useCallback(() => {
+    rafRef.current = requestAnimationFrame(loop);
+    step();
+  }, [step]);
+
+  // Hidden tabs get their timers throttled (about once a minute after a few minutes). Ticks
+  // that far apart aren't credited, so the stretch is logged as a pause instead of going missing.
+  const hiddenTick = useCallback(() => {
+    const now = Date.now();
+    const last = lastHiddenTickRef.current;
+    lastHiddenTickRef.current = now;
+    const stretched = last != null && now - last > recorderRef.current.maxGapMs;
+    if (stretched && !throttledRef.current && runningRef.current && !pausedRef.current) {
+      throttledRef.current = true;
+      recorderRef.current.hold(now);
+      emit({ type: "monitoring_paused", ts: last, payload: { reason: "throttled" } });
+    } else if (!stretched && throttledRef.current) {
+      throttledRef.current = false;
+      emit({ type: "monitoring_resumed", ts: now, payload: { reason: "throttled" } });
+    }
+    step();
+  }, [emit, step]);
 
-    if (isBodyLeaningLeft) candidates.push("body_lean_left");
-    if (isBodyLeaningRight) candidates.push("body_lean_right");
+  const start = useCallback(async () => {
+    if (runningRef.current) return;
+    if (playerRef.current) stop();
+
+    const stream = await openCamera(cameraSettingsRef.current);
+    // device labels are only readable once permission is granted
+    refreshCameras();
+
+    const inference = createInferenceClient();
+    let delegate: Delegate;
+    try {
+      await attachStream(stream);
+      delegate = await inference.init({ enableFace: enableFaceRef.current, ...inferenceSettingsRef.current });
+    } catch (err) {
+      inference.close();
+      stream.getTracks().forEach((t) => t.stop());
+      streamRef.current = null;
+      throw err;
+    }
+    inferenceRef.current = inference;
+    inFlightRef.current = false;
+    setBackend(delegate);
+
+    if (recordRef.current) {
+      try {
+        await recorderRef.current.begin();
+      } catch (err) {
+        // monitoring still works without IndexedDB, it just isn't persisted
+        console.warn("[recorder] startSession failed", err);
+      }
+    }
 
-    // Optional: treat slouchProxy as back_not_straight/slouch
-    // ----- stabilize -----
-    const newActives = updateStableIssues(now, candidates);
+    runningRef.current = true;
+    pausedRef.current = false;
+    pauseReasonRef.current = null;
+    absentSinceRef.current = null;
+    setIsRunning(true);
+    setIsPaused(false);
+    setPauseReason(null);
 
-    setActiveStates((prev) =>
-      arraysEqual(prev as any, newActives as any) ? prev : (newActives as PostureState[])
-    );
+    lastFrameTsRef.current = 0;
+    schedulerRef.current.reset();
+    frameStatsRef.current = { since: performance.now(), frames: 0, faceFrames: 0, inferenceMs: 0 };
 
-    const primary = newActives.length ? pickPrimary(newActives) : "good";
+    didLogPoseOnceRef.current = false;
+    didLogFaceOnceRef.current = false;
 
-    if (primary !== primaryRef.current) {
-      primaryRef.current = primary;
-      lastPrimaryChangeAtRef.current = now;
-      setCurrentPostureState(primary);
+    let saved: PostureBaseline | null = null;
+    try {
+      saved = await loadBaseline();
+    } catch (err) {
+      console.warn("[calibration] loadBaseline failed", err);
     }
+    setBaseline(saved);
+    analyzerRef.current.reset();
+    analyzerRef.current.setBaseline(saved);
+    resetView("good");
 
-    // ----- metrics/flags (for events + coaching) -----
-    const metrics: PostureMetrics = {
-      rollDeg,
-      noseEyeDeltaY,
-      shouldersYDiff: absDiff(ls.y, rs.y),
-      shouldersZDiff: Math.abs((ls.z ?? 0) - (rs.z ?? 0)),
-      forwardHead,
-      bodyOffsetX,
-      torsoFromVertical: bodyOffsetX,
-      faceArea,
-      baseline: baselineFaceRef.current,
-    };
+    rafRef.current = requestAnimationFrame(loop);
+  }, [attachStream, loop, refreshCameras, resetView, stop]);
 
-    const flags: PostureFlags = {
-      headTiltLeft,
-      headTiltRight,
-      headDown,
-      headUp,
-      shouldersUneven,
-      shouldersDepthMisaligned,
-      forwardHead,
-      slouch: slouchProxy,
-      isBodyLeaningLeft,
-      isBodyLeaningRight,
-      tooClose,
-      tooFar,
+  // Device list + hot-plug: reconnect once the lost camera (or the saved one) is back.
+  useEffect(() => {
+    const media = navigator.mediaDevices;
+    if (!media?.addEventListener) return;
+    refreshCameras();
+
+    const onDeviceChange = async () => {
+      const list = await refreshCameras();
+      // a released camera is reopened (with whatever is plugged in) on wake
+      if (!runningRef.current || playerRef.current || pauseReasonRef.current === "absent") return;
+      const current = streamRef.current ? streamDeviceId(streamRef.current) : null;
+
+      if (!cameraLostRef.current) {
+        // not every browser ends the track when the device is unplugged
+        if (current && !list.some((d) => d.deviceId === current)) markCameraLost();
+        return;
+      }
+      const wanted = cameraSettingsRef.current.deviceId ?? current;
+      if (!wanted || list.some((d) => d.deviceId === wanted)) {
+        reconnectCamera().catch((err) => console.warn("[camera] reconnect failed", err));
+      }
     };
 
-    // ✅ Coach layer (2-min reminders, no spam)
-    coachTick(now, newActives, primary, metrics, flags);
-    const postureCooledDown = now - lastPostureAlertAtRef.current >= STABLE.alertCooldownMs;
-
-    if (newActives.length > 0 && postureCooledDown) {
-      lastPostureAlertAtRef.current = now;
-
-      emit({
-        type: "posture_alert",
-        ts: Date.now(),
-        payload: {
-          state: primary,
-          metrics,
-          flags,
-        },
-      });
-    }
+    media.addEventListener("devicechange", onDeviceChange);
+    return () => media.removeEventListener("devicechange", onDeviceChange);
+  }, [markCameraLost, reconnectCamera, refreshCameras]);
 
-    // ----- Draw overlay -----
-    if (drawDebug) {
-      const canvas = canvasRef.current;
-      if (canvas) {
-        ensureCanvasMatchesVideo(video, canvas);
-        const ctx = canvas.getContext("2d");
-        if (ctx) {
-          ctx.clearRect(0, 0, canvas.width, canvas.height);
-
-          drawLine(ctx, ls, rs, canvas.width, canvas.height);
-          drawLine(ctx, lEar, rEar, canvas.width, canvas.height);
-          drawLine(ctx, lEye, rEye, canvas.width, canvas.height);
-          drawLine(ctx, nose, shoulderMid, canvas.width, canvas.height);
-
-          const pts = [nose, lEye, rEye, lEar, rEar, ls, rs, shoulderMid, earMid, eyeMid];
-          for (const p of pts) drawPoint(ctx, p.x, p.y, canvas.width, canvas.height, p === nose ? 7 : 6);
-
-          ctx.save();
-          ctx.fillStyle = "rgba(255,255,255,1)";
-          ctx.font = "16px sans-serif";
-          ctx.fillText(`Primary: ${primary}`, 10, 22);
-          ctx.fillText(`Active: ${newActives.length ? newActives.join(", ") : "none"}`, 10, 44);
-          ctx.restore();
+  // device/resolution/fps changes reopen a running camera
+  useEffect(() => {
+    if (cameraSettingsRef.current === cameraSettings) return;
+    cameraSettingsRef.current = cameraSettings;
+    if (!runningRef.current || playerRef.current || pauseReasonRef.current === "absent") return;
+    reconnectCamera().catch((err) => console.warn("[camera] switch failed", err));
+  }, [cameraSettings, reconnectCamera]);
+
+  // Hidden tab: keep detecting at hiddenFps, or pause; coming back resumes either way.
+  useEffect(() => {
+    const onVisibility = () => {
+      if (document.visibilityState === "hidden") {
+        // the last chance that reliably runs before the tab may be discarded
+        recorderRef.current.flush(Date.now());
+        if (!runningRef.current || playerRef.current) return;
+        const { hiddenTab, hiddenFps } = autoPauseRef.current;
+        if (hiddenTab === "pause") pauseFor("tab_hidden");
+        else if (hiddenTimerRef.current == null) {
+          hiddenTimerRef.current = window.setInterval(hiddenTick, 1000 / Math.max(0.1, hiddenFps));
         }
+        return;
       }
-    }
-  }, [clearOverlay, drawDebug, emit]);
+      stopHiddenTicker();
+      if (pauseReasonRef.current === "tab_hidden" || pauseReasonRef.current === "absent") {
+        resume().catch((err) => console.warn("[monitor] resume failed", err));
+      }
+    };
+    document.addEventListener("visibilitychange", onVisibility);
+    return () => {
+      document.removeEventListener("visibilitychange", onVisibility);
+      stopHiddenTicker();
+    };
+  }, [hiddenTick, pauseFor, resume, stopHiddenTicker]);
 
-  const start = useCallback(async () => {
-    if (runningRef.current) return;
+  // Camera released: any input means the user is back; otherwise probe every probeEverySec.
+  const probeEverySec = autoPause.probeEverySec;
+  useEffect(() => {
+    if (pauseReason !== "absent") return;
+    const onActivity = () => resume().catch((err) => console.warn("[monitor] resume failed", err));
+    const activity = ["pointermove", "pointerdown", "keydown", "wheel"] as const;
+    activity.forEach((type) => window.addEventListener(type, onActivity, { passive: true }));
+    const timer =
+      probeEverySec > 0
+        ? window.setInterval(() => {
+            probe().catch((err) => console.warn("[monitor] probe failed", err));
+          }, probeEverySec * 1000)
+        : null;
+    return () => {
+      activity.forEach((type) => window.removeEventListener(type, onActivity));
+      if (timer != null) window.clearInterval(timer);
+    };
+  }, [pauseReason, probe, probeEverySec, resume]);
 
+  const startLandmarkRecording = useCallback(() => {
     const video = videoRef.current;
-    if (!video) throw new Error("videoRef not attached");
+    if (!runningRef.current || !video || landmarkRecorderRef.current.active) return;
+    landmarkRecorderRef.current.start({
+      width: video.videoWidth,
+      height: video.videoHeight,
+      sessionId: recorderRef.current.sessionId ?? undefined,
+    });
+    setIsRecordingLandmarks(true);
+  }, []);
+
+  const stopLandmarkRecording = useCallback(async () => {
+    setIsRecordingLandmarks(false);
+    return landmarkRecorderRef.current.stop();
+  }, []);
+
+  const playFrames = useCallback(
+    (frames: RecordedFrame[], meta: { recordingId: string; label: string; width: number; height: number }) => {
+      overlaySizeRef.current = meta.width && meta.height ? { width: meta.width, height: meta.height } : null;
+      const canvas = canvasRef.current;
+      if (canvas) ensureCanvasSize(canvas, overlaySizeRef.current);
+
+      const player = createReplayPlayer(frames);
+      playerRef.current = player;
+      replayMetaRef.current = { recordingId: meta.recordingId, label: meta.label };
+      analyzerRef.current.configure({
+        frameSize: meta.width && meta.height ? { width: meta.width, height: meta.height } : null,
+        // recorded frames carry their own face cadence; the live scheduler's doesn't apply
+        faceIntervalMs: 0,
+      });
+      faceIntervalRef.current = 0;
+      analyzerRef.current.reset();
+      resetView("good");
+      player.play();
+      publishReplay(player);
+
+      rafRef.current = requestAnimationFrame(loop);
+    },
+    [loop, publishReplay, resetView]
+  );
 
-    const stream = await navigator.mediaDevices.getUserMedia({
-      video: { width: { ideal: 1280 }, height: { ideal: 720 } },
-      audio: false,
+  const startReplay = useCallback(
+    async (recordingId: string) => {
+      stop();
+
+      const [meta, frames] = await Promise.all([getRecording(recordingId), loadRecordingFrames(recordingId)]);
+      if (!meta || !frames.length) throw new Error("Recording is empty or missing");
+
+      playFrames(frames, { recordingId, label: meta.label, width: meta.width, height: meta.height });
+    },
+    [playFrames, stop]
+  );
+
+  /** Scripted walk through every posture state; needs no camera or models. */
+  const startDemo = useCallback(() => {
+    stop();
+    playFrames(generateSyntheticFrames(demoScript(), { mirror }), {
+      recordingId: "synthetic",
+      label: "Synthetic demo",
+      width: 640,
+      height: 480,
     });
+  }, [mirror, playFrames, stop]);
+
+  const playReplay = useCallback(() => {
+    const player = playerRef.current;
+    if (!player) return;
+    // restarting from the end replays from scratch
+    if (player.positionMs >= player.durationMs) analyzerRef.current.reset();
+    player.play();
+    publishReplay(player);
+  }, [publishReplay]);
+
+  const pauseReplay = useCallback(() => {
+    const player = playerRef.current;
+    if (!player) return;
+    player.pause();
+    publishReplay(player);
+  }, [publishReplay]);
+
+  // Stability/coach timers assume monotonic time, so a seek restarts the analysis.
+  const seekReplay = useCallback(
+    (ms: number) => {
+      const player = playerRef.current;
+      if (!player) return;
+      player.seek(ms);
+      analyzerRef.current.reset();
+      resetView("good");
+      publishReplay(player);
+    },
+    [publishReplay, resetView]
+  );
 
-    streamRef.current = stream;
-    video.srcObject = stream;
-    video.playsInline = true;
-    video.muted = true;
+  const setReplaySpeed = useCallback(
+    (speed: number) => {
+      const player = playerRef.current;
+      if (!player) return;
+      player.setSpeed(speed);
+      publishReplay(player);
+    },
+    [publishReplay]
+  );
 
-    await video.play();
+  const calibrateDistance = useCallback((knownCm: number) => analyzerRef.current.measureFocalRatio(knownCm), []);
 
-    poseRef.current = await createPoseLandmarker();
-    if (enableFaceRef.current) faceRef.current = await createFaceLandmarker();
+  const startCalibration = useCallback(() => {
+    if (!runningRef.current) return;
+    analyzerRef.current.startCalibration(enableFaceRef.current);
+    const status: CalibrationStatus = { phase: "collecting", progress: 0, problems: [] };
+    shownRef.current.calibration = status;
+    setCalibration(status);
+  }, []);
 
-    runningRef.current = true;
-    pausedRef.current = false;
-    setIsRunning(true);
-    setIsPaused(false);
+  const cancelCalibration = useCallback(() => {
+    analyzerRef.current.cancelCalibration();
+    shownRef.current.calibration = null;
+    setCalibration(null);
+  }, []);
 
-    lastFrameTsRef.current = 0;
+  const confirmCalibration = useCallback(async () => {
+    const result = analyzerRef.current.calibrationResult();
+    if (!result) return false;
 
-    didLogPoseOnceRef.current = false;
-    didLogFaceOnceRef.current = false;
+    analyzerRef.current.setBaseline(result);
+    setBaseline(result);
+    cancelCalibration();
 
-    baselineFaceRef.current = null;
-    baselineFaceSamplesRef.current = [];
-    baselineShoulderXRef.current = null;
-    baselineNeckYRef.current = null;
-    baselinePoseSamplesRef.current = [];
+    await saveBaseline(result);
+    return true;
+  }, [cancelCalibration]);
 
-    issueMapRef.current.clear();
-    setActiveStates([]);
-    primaryRef.current = "good";
-    setCurrentPostureState("good");
-
-    // coach reset (per run)
-    coachLastTickRef.current = null;
-    coachWindowStartRef.current = null;
-    coachGoodMsRef.current = 0;
-    coachBadMsRef.current = 0;
-    coachStateMsRef.current.clear();
-    coachContinuousMsRef.current.clear();
-    coachLastReminderAtRef.current = 0;
-    lastPostureAlertAtRef.current = 0; // ✅ add
+  const resetBaseline = useCallback(async () => {
+    analyzerRef.current.setBaseline(null);
+    setBaseline(null);
+    await clearBaseline();
+  }, []);
 
-    rafRef.current = requestAnimationFrame(loop);
-  }, [loop]);
+  // show saved calibration before monitoring starts
+  useEffect(() => {
+    let alive = true;
+    loadBaseline()
+      .then((b) => {
+        if (!alive) return;
+        analyzerRef.current.setBaseline(b);
+        setBaseline(b);
+      })
+      .catch((err) => console.warn("[calibration] loadBaseline failed", err));
+    return () => {
+      alive = false;
+    };
+  }, []);
 
   useEffect(() => stop, [stop]);
 
+  useEffect(
+    () => () => {
+      videoRef.current?.remove();
+      parkingRef.current?.remove();
+      parkingRef.current = null;
+      videoRef.current = null;
+    },
+    []
+  );
+
+  // Flush the partial minute + close the session when the tab goes away.
+  // end() issues all its writes synchronously; the page may be gone before they settle.
+  useEffect(() => {
+    const onPageHide = () => {
+      recorderRef.current.end().catch((err) => console.warn("[recorder] endSession failed", err));
+    };
+    window.addEventListener("pagehide", onPageHide);
+    return () => window.removeEventListener("pagehide", onPageHide);
+  }, []);
+
   return {
     start,
     stop,
     pause,
     isRunning,
     isPaused,
+    pauseReason,
     currentPostureState,
     activeStates,
     distanceSignal,
+    focusState,
+    blinkRate,
+    fatigueScore,
+    backend,
+    diagnostics,
     events,
-    videoRef,
+    on,
+    onAny,
+    baseline,
+    calibration,
+    startCalibration,
+    confirmCalibration,
+    cancelCalibration,
+    resetBaseline,
+    calibrateDistance,
+    cameras,
+    cameraLost,
+    refreshCameras,
+    isRecordingLandmarks,
+    startLandmarkRecording,
+    stopLandmarkRecording,
+    replay,
+    startReplay,
+    startDemo,
+    playReplay,
+    pauseReplay,
+    seekReplay,
+    setReplaySpeed,
+    stopReplay: stop,
+    attachVideo,
     canvasRef,
   };
-}
\ No newline at end of file
+}
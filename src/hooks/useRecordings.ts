@@ -0,0 +1,56 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { LandmarkRecording } from "@/types/contracts";
+import { deleteRecording, listRecordings, loadRecordingFrames } from "@/lib/storage/repo";
+import { importRecordingFile, parseRecordingFile, toRecordingFile } from "@/lib/replay/landmarkRecorder";
+import { exportJSON } from "@/lib/export/export";
+
+/** Saved landmark recordings (newest first) plus import/export/delete. */
+export function useRecordings() {
+  const [recordings, setRecordings] = useState<LandmarkRecording[]>([]);
+
+  const refresh = useCallback(async () => {
+    try {
+      setRecordings(await listRecordings());
+    } catch (err) {
+      console.warn("[landmarks] listRecordings failed", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    let alive = true;
+    listRecordings()
+      .then((rows) => {
+        if (alive) setRecordings(rows);
+      })
+      .catch((err) => console.warn("[landmarks] listRecordings failed", err));
+    return () => {
+      alive = false;
+    };
+  }, []);
+
+  const remove = useCallback(
+    async (id: string) => {
+      await deleteRecording(id);
+      await refresh();
+    },
+    [refresh]
+  );
+
+  const exportFile = useCallback(async (recording: LandmarkRecording) => {
+    const frames = await loadRecordingFrames(recording.id);
+    exportJSON(`landmarks-${recording.createdAt}.json`, toRecordingFile(recording, frames));
+  }, []);
+
+  const importFile = useCallback(
+    async (file: File) => {
+      const recording = await importRecordingFile(parseRecordingFile(await file.text()));
+      await refresh();
+      return recording;
+    },
+    [refresh]
+  );
+
+  return { recordings, refresh, remove, exportFile, importFile };
+}
@@ -0,0 +1,35 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { UserSettings } from "@/types/contracts";
+import { defaultSettings } from "@/lib/settings/defaults";
+import { getSettings, peekSettings, subscribeSettings, updateSettings } from "@/lib/settings/store";
+
+/**
+ * Persisted UserSettings shared by every page.
+ * Returns defaults until IndexedDB has loaded, then stays in sync with updates from anywhere.
+ */
+export function useSettings() {
+  const [settings, setLocal] = useState<UserSettings>(() => peekSettings() ?? defaultSettings);
+  const [loaded, setLoaded] = useState(() => peekSettings() != null);
+
+  useEffect(() => {
+    let alive = true;
+    getSettings().then((s) => {
+      if (!alive) return;
+      setLocal(s);
+      setLoaded(true);
+    });
+    const unsub = subscribeSettings(setLocal);
+    return () => {
+      alive = false;
+      unsub();
+    };
+  }, []);
+
+  const setSettings = useCallback((patch: Partial<UserSettings> | ((s: UserSettings) => UserSettings)) => {
+    updateSettings(patch).catch((err) => console.warn("[settings] save failed", err));
+  }, []);
+
+  return { settings, setSettings, loaded };
+}
@@ -0,0 +1,162 @@
+import { describe, expect, it } from "vitest";
+import { createFrameAnalyzer, type AnalyzerOptions, type FrameAnalysis } from "./analyzer";
+import { COACH_PROFILES } from "@/lib/coach/coach";
+import { resolveDetectionProfile } from "@/lib/posture/thresholds";
+import { generateSyntheticFrames, type SyntheticSegment } from "@/lib/replay/synthetic";
+import type { RecordedFrame } from "@/types/contracts";
+
+const WALL_START = 1_700_000_000_000;
+
+/** Runs frames through a fresh analyzer whose wall clock follows the frame timestamps. */
+function analyzeAll(frames: RecordedFrame[], opts: AnalyzerOptions = {}) {
+  let wall = WALL_START;
+  const analyzer = createFrameAnalyzer({ ...opts, clock: () => wall });
+  return frames.map((f) => {
+    wall = WALL_START + f.ts;
+    return analyzer.analyze(f);
+  });
+}
+
+function frames(segments: SyntheticSegment[]) {
+  return generateSyntheticFrames(segments, { transitionMs: 0, noise: 0.001, seed: 7 });
+}
+
+const BASELINE: SyntheticSegment = { state: "good", durationMs: 3_000 };
+
+/** Analyses whose timestamp falls in [from, to). */
+function between(out: FrameAnalysis[], from: number, to: number) {
+  return out.filter((a) => a.ts >= from && a.ts < to);
+}
+
+/** Sets every frame's shoulder landmarks (11, 12) to low visibility. */
+function hideShoulders(fs: RecordedFrame[]): RecordedFrame[] {
+  return fs.map((f) => ({
+    ...f,
+    pose: f.pose?.map((p, i) => (i === 11 || i === 12 ? { ...p, visibility: 0.1 } : p)) ?? null,
+  }));
+}
+
+describe("createFrameAnalyzer", () => {
+  it("reports good posture once the baseline has settled", () => {
+    const out = analyzeAll(frames([BASELINE, { state: "good", durationMs: 2_000 }]));
+    for (const a of between(out, 3_000, 5_000)) {
+      expect(a.primary).toBe("good");
+      expect(a.actives).toEqual([]);
+      expect(a.unchecked).toEqual([]);
+    }
+  });
+
+  it("picks the active issue as primary", () => {
+    const out = analyzeAll(frames([BASELINE, { state: "head_tilt_left", durationMs: 3_000 }]));
+    const late = between(out, 5_000, 6_000);
+    expect(late.length).toBeGreaterThan(0);
+    for (const a of late) {
+      expect(a.primary).toBe("head_tilt_left");
+      expect(a.actives).toContain("head_tilt_left");
+    }
+  });
+
+  it("is uncertain while no issue is active and a check can't run", () => {
+    const out = analyzeAll(frames([BASELINE, { state: "uncertain", durationMs: 3_000 }]));
+    for (const a of between(out, 4_000, 6_000)) {
+      expect(a.primary).toBe("uncertain");
+      expect(a.actives).toEqual([]);
+      expect(a.unchecked).toContain("shoulders_unlevel");
+      // head checks read the face matrix, so they keep running
+      expect(a.unchecked).not.toContain("head_tilt_left");
+    }
+  });
+
+  it("reports no_person without pose landmarks", () => {
+    const out = analyzeAll(frames([BASELINE, { state: "no_person", durationMs: 1_000 }]));
+    for (const a of between(out, 3_000, 4_000)) {
+      expect(a.primary).toBe("no_person");
+      expect(a.pose).toBeNull();
+    }
+  });
+
+  it("scores severity only for issues that were checked", () => {
+    const unlevel = frames([BASELINE, { state: "shoulders_unlevel", durationMs: 3_000 }]);
+    const visible = analyzeAll(unlevel);
+    expect(visible.at(-1)!.metrics!.severity.shoulders_unlevel).toBeGreaterThan(0);
+
+    // same frames with the shoulders hidden: the issue is unknown, not scored
+    const hidden = analyzeAll([
+      ...unlevel.filter((f) => f.ts < 3_000),
+      ...hideShoulders(unlevel.filter((f) => f.ts >= 3_000)),
+    ]);
+    for (const a of between(hidden, 3_000, 6_000)) {
+      expect(a.candidates).not.toContain("shoulders_unlevel");
+      expect(a.metrics!.severity.shoulders_unlevel).toBeUndefined();
+      expect(a.unchecked).toContain("shoulders_unlevel");
+    }
+  });
+
+  it("doesn't check or score disabled issues", () => {
+    const out = analyzeAll(frames([BASELINE, { state: "head_tilt_left", durationMs: 3_000 }]), {
+      profile: resolveDetectionProfile({ sensitivity: "medium", postureOverrides: { disabled: ["head_tilt_left"] } }),
+    });
+    for (const a of between(out, 3_000, 6_000)) {
+      expect(a.candidates).not.toContain("head_tilt_left");
+      expect(a.actives).not.toContain("head_tilt_left");
+      expect(a.metrics!.severity.head_tilt_left).toBeUndefined();
+      expect(a.unchecked).not.toContain("head_tilt_left");
+    }
+  });
+
+  it("spaces posture alerts by the coach alert cooldown", () => {
+    const alertCooldownMs = 4_000;
+    const out = analyzeAll(frames([BASELINE, { state: "head_tilt_left", durationMs: 13_000 }]), {
+      coach: { ...COACH_PROFILES.standard, alertCooldownMs },
+    });
+    const alerts = out.flatMap((a) => a.events).filter((e) => e.type === "posture_alert");
+
+    // issue held 13 s: alerts at onset, +4 s, +8 s, +12 s
+    expect(alerts).toHaveLength(4);
+    expect(alerts[0].payload.state).toBe("head_tilt_left");
+    for (let i = 1; i < alerts.length; i++) {
+      const gap = alerts[i].ts - alerts[i - 1].ts;
+      expect(gap).toBeGreaterThanOrEqual(alertCooldownMs);
+      expect(gap).toBeLessThan(alertCooldownMs + 50);
+    }
+    // event timestamps come from the injected clock
+    expect(alerts[0].ts).toBeGreaterThanOrEqual(WALL_START + 3_000);
+  });
+
+  it("credits no coach time while uncertain", () => {
+    const windowMs = 20_000;
+    const out = analyzeAll(
+      frames([
+        BASELINE,
+        { state: "head_tilt_left", durationMs: 3_000 },
+        { state: "uncertain", durationMs: 10_000 },
+        { state: "head_tilt_left", durationMs: 6_000 },
+      ]),
+      {
+        coach: {
+          ...COACH_PROFILES.standard,
+          windowMs,
+          badDominanceMs: 1,
+          continuousBadMs: 60_000,
+          cooldownMs: 0,
+        },
+      }
+    );
+    const end = out.findIndex((a) => a.events.some((e) => e.type === "coach_reminder"));
+    expect(end).toBeGreaterThan(0);
+    const reminder = out[end].events.find((e) => e.type === "coach_reminder")!;
+
+    // the window only holds the frame gaps that end on a frame the coach could judge
+    let certainMs = 0;
+    for (let i = 1; i <= end; i++) {
+      if (out[i].primary !== "uncertain") certainMs += out[i].ts - out[i - 1].ts;
+    }
+    expect(certainMs).toBeLessThan(windowMs - 5_000);
+    expect(reminder.payload.goodMs + reminder.payload.badMs).toBeCloseTo(certainMs, 0);
+  });
+
+  it("raises no alerts for good posture", () => {
+    const out = analyzeAll(frames([BASELINE, { state: "good", durationMs: 10_000 }]));
+    expect(out.flatMap((a) => a.events).filter((e) => e.type === "posture_alert")).toEqual([]);
+  });
+});
@@ -0,0 +1,664 @@
+import type {
+  CalibrationStatus,
+  MonitoringEvent,
+  PostureFlags,
+  PostureMetrics,
+  PostureState,
+} from "@/types";
+import type {
+  CoachTiming,
+  DistanceSettings,
+  FocusState,
+  PostureBaseline,
+  SmoothingSettings,
+  UserSettings,
+} from "@/types/contracts";
+import type { FrameResult, Landmark } from "@/lib/vision/protocol";
+import { createLandmarkSmoother } from "@/lib/vision/smoothing";
+import { computeLeanState, computeSlouch, faceAreaSignal } from "@/lib/posture/heuristics";
+import { headPoseFromMatrix, toDisplayHeadPose, type HeadPose } from "@/lib/posture/headPose";
+import { resolveDetectionProfile, type DetectionProfile } from "@/lib/posture/thresholds";
+import { createIssueStabilizer, pickPrimary, type PostureIssue } from "@/lib/posture/stability";
+import { distanceCmFromIris, focalRatioAt, focalRatioFromFov, irisWidthRatio } from "@/lib/posture/distance";
+import { computeSeverity, type IssueSeverity } from "@/lib/posture/severity";
+import { isVisible, uncheckableIssues } from "@/lib/posture/visibility";
+import { createCalibrator, type Calibrator } from "@/lib/posture/calibration";
+import { classifyFocus, createFocusTracker } from "@/lib/focus/focus";
+import { BLINK, blinkScoreFromBlendshapes, createBlinkDetector } from "@/lib/eyes/blink";
+import { createEyeWindow, type EyeSnapshot } from "@/lib/eyes/fatigue";
+import { COACH_PROFILES, createCoachTracker } from "@/lib/coach/coach";
+import { defaultSettings } from "@/lib/settings/defaults";
+
+/**
+ * Framework-free frame analysis: landmarks in, posture/focus/eye state and
+ * MonitoringEvents out. No React, DOM or MediaPipe imports, so it runs the
+ * same in the browser hook and in Node against recorded landmark fixtures.
+ *
+ * Frame timestamps (`ts`) drive all timing (stability, coach windows, focus
+ * thresholds); `clock` only stamps emitted events with wall time.
+ */
+
+/** Samples averaged into the per-run baseline when there is no calibration. */
+const AUTO_BASELINE_SAMPLES = 60;
+
+/**
+ * Face-derived signals (head pose, distance, focus) stay in use this long on frames where
+ * face tracking didn't run, or twice the configured face interval if that is longer.
+ */
+const FACE_HOLD_MS = 500;
+
+/** Recent iris measurements kept for the known-distance calibration. */
+const IRIS_WINDOW = 30;
+
+/** Eye snapshot (blink rate / fatigue) refresh interval. */
+const EYE_SNAPSHOT_MS = 1_000;
+
+export type AnalyzerConfig = {
+  /** true if the preview is mirrored (selfie style); landmarks are flipped to match */
+  mirror: boolean;
+  profile: DetectionProfile;
+  focus: Pick<UserSettings, "focusMode" | "distraction">;
+  smoothing: SmoothingSettings;
+  distance: DistanceSettings;
+  /** Coach reminder + posture alert timing (resolveCoachTiming) */
+  coach: CoachTiming;
+  /** Source frame size in pixels; needed to turn iris size into a distance */
+  frameSize: { width: number; height: number } | null;
+  /** Expected gap between face frames when face tracking runs at a lower rate than pose (0 = every frame) */
+  faceIntervalMs: number;
+};
+
+export type AnalyzerOptions = Partial<AnalyzerConfig> & {
+  /** Wall clock for event timestamps (defaults to Date.now) */
+  clock?: () => number;
+};
+
+export type AnalyzerInput = Pick<FrameResult, "ts" | "pose" | "face" | "faceRan">;
+
+export type FrameAnalysis = {
+  ts: number;
+  /** clock() when the frame was analyzed */
+  wallTs: number;
+  primary: PostureState;
+  actives: PostureState[];
+  /** Enabled issues skipped on this frame because their landmarks are hidden */
+  unchecked: PostureIssue[];
+  /** Issues flagged on this frame, before stabilization */
+  candidates: PostureIssue[];
+  /** null when no person is in frame */
+  metrics: PostureMetrics | null;
+  flags: PostureFlags | null;
+  /** null when face tracking is off; held between face frames */
+  focus: FocusState | null;
+  head: HeadPose | null;
+  faceArea: number | null;
+  /** Iris-based screen distance; null without a tracked iris or frame size */
+  distanceCm: number | null;
+  /** Set on the frame a blink ended */
+  blinkMs: number | null;
+  /** Latest eye snapshot (refreshed about once a second) */
+  eye: EyeSnapshot | null;
+  calibration: CalibrationStatus | null;
+  /** Smoothed pose landmarks in display space (mirrored if configured) */
+  pose: Landmark[] | null;
+  /** Same points before smoothing (=== pose when smoothing is off) */
+  rawPose: Landmark[] | null;
+  hipsVisible: boolean;
+  events: MonitoringEvent[];
+};
+
+type LM = Landmark;
+
+const rad2deg = (r: number) => (r * 180) / Math.PI;
+
+function mid(a: LM, b: LM): LM {
+  return {
+    x: (a.x + b.x) / 2,
+    y: (a.y + b.y) / 2,
+    z: a.z != null && b.z != null ? (a.z + b.z) / 2 : undefined,
+  };
+}
+
+function angleDeg(a: LM, b: LM) {
+  return rad2deg(Math.atan2(b.y - a.y, b.x - a.x));
+}
+
+function absDiff(a: number, b: number) {
+  return Math.abs(a - b);
+}
+
+function normalizeTo90(angle: number) {
+  let a = ((angle + 180) % 360) - 180; // (-180, 180]
+  if (a > 90) a -= 180;
+  if (a < -90) a += 180;
+  return a;
+}
+
+function average(xs: number[]) {
+  return xs.reduce((a, b) => a + b, 0) / xs.length;
+}
+
+export function createFrameAnalyzer(opts: AnalyzerOptions = {}) {
+  const clock = opts.clock ?? Date.now;
+  let config: AnalyzerConfig = {
+    mirror: opts.mirror ?? true,
+    profile: opts.profile ?? resolveDetectionProfile(undefined),
+    focus: opts.focus ?? { focusMode: defaultSettings.focusMode, distraction: defaultSettings.distraction },
+    smoothing: opts.smoothing ?? defaultSettings.smoothing,
+    distance: opts.distance ?? defaultSettings.distance,
+    coach: opts.coach ?? COACH_PROFILES.standard,
+    frameSize: opts.frameSize ?? null,
+    faceIntervalMs: opts.faceIntervalMs ?? 0,
+  };
+
+  const stabilizer = createIssueStabilizer();
+  const coach = createCoachTracker(config.coach);
+  const focusTracker = createFocusTracker();
+  const blinkDetector = createBlinkDetector();
+  const eyeWindow = createEyeWindow();
+  const poseSmoother = createLandmarkSmoother(config.smoothing);
+  const faceSmoother = createLandmarkSmoother(config.smoothing);
+
+  let primary: PostureState = "no_person";
+  // last per-frame severity of each issue, held while the stabilizer keeps it active
+  let heldSeverity: IssueSeverity = {};
+  let lastPostureAlertAt: number | null = null;
+  let startedAt: number | null = null;
+  let eye: EyeSnapshot | null = null;
+  let lastEyeSnapshotAt: number | null = null;
+
+  // Calibrated baseline; when set, the per-run auto-average is skipped
+  let calibrated: PostureBaseline | null = null;
+  let calibrator: Calibrator | null = null;
+
+  // Per-run baselines (face distance + pose, no hips)
+  let baselineFace: number | null = null;
+  let faceSamples: number[] = [];
+  let baselineShoulderX: number | null = null;
+  let baselineNeckY: number | null = null;
+  let poseSamples: { shoulderX: number; neckY: number }[] = [];
+  let baselineHeadPitch: number | null = null;
+  let pitchSamples: number[] = [];
+  // display-space head pose from the last face matrix
+  let lastFaceHead: { pose: HeadPose; ts: number } | null = null;
+  let lastDistance: { cm: number; ts: number } | null = null;
+  let lastFaceArea: { area: number; ts: number } | null = null;
+  let lastFocus: { state: FocusState; ts: number } | null = null;
+  let irisSamples: number[] = [];
+  // face tracking ran but found no face while the body is in view (held between face frames)
+  let faceLost = false;
+
+  function faceHoldMs() {
+    return Math.max(FACE_HOLD_MS, 2 * config.faceIntervalMs);
+  }
+
+  function resetBaselines() {
+    baselineFace = calibrated?.faceArea ?? null;
+    faceSamples = [];
+    baselineShoulderX = calibrated?.shoulderX ?? null;
+    baselineNeckY = calibrated?.neckY ?? null;
+    poseSamples = [];
+    baselineHeadPitch = calibrated?.headPitchDeg ?? null;
+    pitchSamples = [];
+  }
+
+  // Face frames too far apart miss most blinks: eye metrics become unknown rather than undercounted.
+  function eyesTrackable() {
+    return config.faceIntervalMs <= Math.ceil(1000 / BLINK.minFaceFps);
+  }
+
+  function dropEyes() {
+    if (lastEyeSnapshotAt == null) return;
+    blinkDetector.reset();
+    eyeWindow.reset();
+    eye = null;
+    lastEyeSnapshotAt = null;
+  }
+
+  function updateEyes(now: number, face: AnalyzerInput["face"]) {
+    let blinkMs: number | null = null;
+    const blinkScore = blinkScoreFromBlendshapes(face?.blendshapes ?? undefined);
+    if (blinkScore != null) {
+      const u = blinkDetector.update(now, blinkScore);
+      if (u.calibrated) eyeWindow.add(now, u.closed, u.blinkMs);
+      blinkMs = u.blinkMs ?? null;
+    }
+
+    if (lastEyeSnapshotAt == null || now - lastEyeSnapshotAt >= EYE_SNAPSHOT_MS) {
+      lastEyeSnapshotAt = now;
+      eye = eyeWindow.snapshot(now - (startedAt ?? now));
+    }
+    return blinkMs;
+  }
+
+  function distraction(now: number, focus: FocusState, head: HeadPose | null): MonitoringEvent | null {
+    const alert = focusTracker.update(now, focus, config.focus);
+    if (!alert) return null;
+    return {
+      type: "distraction_alert",
+      ts: clock(),
+      payload: { ...alert, yawDeg: head?.yawDeg, pitchDeg: head?.pitchDeg },
+    };
+  }
+
+  /**
+   * Analyze one frame. Checks whose landmarks are hidden are skipped; with
+   * no visible issue left to report, the frame is "uncertain" rather than good.
+   */
+  function analyze(input: AnalyzerInput): FrameAnalysis {
+    const now = input.ts;
+    startedAt ??= now;
+    const events: MonitoringEvent[] = [];
+    const raw = input.pose;
+
+    if (!raw || raw.length < 13) {
+      poseSmoother.reset();
+      faceSmoother.reset();
+      coach.skip(now);
+      const e = distraction(now, "away", null);
+      if (e) events.push(e);
+      if (primary !== "no_person") {
+        primary = "no_person";
+        events.push({ type: "person_lost", ts: clock(), payload: {} });
+      }
+      return {
+        ts: now,
+        wallTs: clock(),
+        primary: "no_person",
+        actives: [],
+        unchecked: [],
+        candidates: [],
+        metrics: null,
+        flags: null,
+        focus: "away",
+        head: null,
+        faceArea: null,
+        distanceCm: null,
+        blinkMs: null,
+        eye,
+        calibration: null,
+        pose: null,
+        rawPose: null,
+        hipsVisible: false,
+        events,
+      };
+    }
+
+    const { thresholds: TH, stable: STABLE, disabled } = config.profile;
+    const displayRaw = config.mirror ? raw.map((p) => ({ ...p, x: 1 - p.x })) : raw;
+    const pose = poseSmoother.smooth(now, displayRaw);
+
+    // key points
+    const nose = pose[0];
+    const lEye = pose[2];
+    const rEye = pose[5];
+    const lEar = pose[7];
+    const rEar = pose[8];
+    const ls = pose[11];
+    const rs = pose[12];
+
+    // min shoulder visibility, for the calibration quality gate
+    const visVals = [ls.visibility, rs.visibility].filter((v): v is number => typeof v === "number");
+    const minVis = visVals.length ? Math.min(...visVals) : 1;
+
+    const shoulderMid = mid(ls, rs);
+    const eyeMid = mid(lEye, rEye);
+
+    // --- head pose: face matrix when a face is tracked, pose landmarks otherwise ---
+    if (input.faceRan) {
+      const hp = input.face?.matrix ? headPoseFromMatrix(input.face.matrix) : null;
+      lastFaceHead = hp ? { pose: toDisplayHeadPose(hp, config.mirror), ts: now } : null;
+      if (hp && baselineHeadPitch == null) {
+        pitchSamples.push(hp.pitchDeg);
+        if (pitchSamples.length >= AUTO_BASELINE_SAMPLES) baselineHeadPitch = average(pitchSamples);
+      }
+    }
+    const faceHead = lastFaceHead && now - lastFaceHead.ts <= faceHoldMs() ? lastFaceHead.pose : null;
+    // camera height sets the neutral pitch, so up/down is measured from the baseline
+    const headPitchRel = faceHead ? faceHead.pitchDeg - (baselineHeadPitch ?? 0) : null;
+
+    // --- head roll ---
+    const rollDeg = faceHead ? faceHead.rollDeg : normalizeTo90(angleDeg(lEar, rEar));
+    const headTiltLeft = rollDeg < -TH.headRollDeg;
+    const headTiltRight = rollDeg > TH.headRollDeg;
+
+    // --- head up/down ---
+    const noseEyeDeltaY = nose.y - eyeMid.y;
+    const headDown = headPitchRel != null ? headPitchRel < -TH.headPitchDownDeg : noseEyeDeltaY > TH.headPitchDown;
+    const headUp = headPitchRel != null ? headPitchRel > TH.headPitchUpDeg : noseEyeDeltaY < TH.headPitchUp;
+
+    // --- shoulders ---
+    const shouldersUneven = absDiff(ls.y, rs.y) > TH.shouldersUnevenY;
+    const shouldersDepthMisaligned = Math.abs((ls.z ?? 0) - (rs.z ?? 0)) > TH.shouldersDepthZ;
+
+    const neckY = nose.y - shoulderMid.y;
+
+    // only clearly visible frames feed the auto baseline
+    if ((baselineShoulderX == null || baselineNeckY == null) && [nose, ls, rs].every(isVisible)) {
+      poseSamples.push({ shoulderX: shoulderMid.x, neckY });
+      if (poseSamples.length >= AUTO_BASELINE_SAMPLES) {
+        baselineShoulderX = average(poseSamples.map((s) => s.shoulderX));
+        baselineNeckY = average(poseSamples.map((s) => s.neckY));
+      }
+    }
+
+    // --- slouch / back (neck + forward head; torso angle when hips are visible) ---
+    const back = computeSlouch(pose, TH, baselineNeckY != null ? -baselineNeckY : null);
+    const forwardHead = back.forwardHead;
+
+    // --- trunk lean left/right ---
+    const lean = computeLeanState(pose, TH);
+
+    // --- body lean left/right (screen-based) ---
+    const bodyOffsetX = baselineShoulderX != null ? shoulderMid.x - baselineShoulderX : shoulderMid.x - 0.5;
+    const isBodyLeaningLeft = bodyOffsetX < -TH.bodyLeanX;
+    const isBodyLeaningRight = bodyOffsetX > TH.bodyLeanX;
+
+    // --- focus, eyes, distance (face) ---
+    let tooClose = false;
+    let tooFar = false;
+    let faceArea: number | null = null;
+    let head: HeadPose | null = null;
+    let focus: FocusState | null = null;
+    let blinkMs: number | null = null;
+
+    if (input.faceRan) {
+      let faceLandmarks = input.face?.landmarks;
+      if (faceLandmarks?.length) faceLandmarks = faceSmoother.smooth(now, faceLandmarks);
+      else faceSmoother.reset();
+      faceLost = !faceLandmarks?.length;
+      const matrix = input.face?.matrix;
+      head = matrix ? headPoseFromMatrix(matrix) : null;
+      focus = classifyFocus(true, head, !!faceLandmarks?.length);
+      lastFocus = { state: focus, ts: now };
+      const e = distraction(now, focus, head);
+      if (e) events.push(e);
+
+      if (eyesTrackable()) blinkMs = updateEyes(now, input.face);
+      else dropEyes();
+
+      lastDistance = null;
+      lastFaceArea = null;
+      if (faceLandmarks?.length) {
+        faceArea = faceAreaSignal(faceLandmarks);
+        lastFaceArea = { area: faceArea, ts: now };
+
+        const frame = config.frameSize;
+        const iris = frame ? irisWidthRatio(faceLandmarks, frame.height / frame.width) : null;
+        if (iris != null) {
+          irisSamples.push(iris);
+          if (irisSamples.length > IRIS_WINDOW) irisSamples.shift();
+          lastDistance = { cm: distanceCmFromIris(iris, focalRatio()), ts: now };
+        }
+
+        if (baselineFace == null) {
+          faceSamples.push(faceArea);
+          if (faceSamples.length >= AUTO_BASELINE_SAMPLES) baselineFace = average(faceSamples);
+        }
+      }
+    } else if (lastFocus && now - lastFocus.ts <= faceHoldMs()) {
+      focus = lastFocus.state;
+    }
+
+    const heldFaceArea = lastFaceArea && now - lastFaceArea.ts <= faceHoldMs() ? lastFaceArea.area : null;
+    if (heldFaceArea != null && baselineFace != null) {
+      tooClose = heldFaceArea > baselineFace * TH.tooCloseMul;
+      tooFar = heldFaceArea < baselineFace * TH.tooFarMul;
+    }
+
+    // absolute distance rule wins over the relative face-area one
+    const distanceCm = lastDistance && now - lastDistance.ts <= faceHoldMs() ? lastDistance.cm : null;
+    if (distanceCm != null) {
+      tooClose = distanceCm < config.distance.minCm;
+      tooFar = distanceCm > config.distance.maxCm;
+    }
+
+    // ----- collect ALL candidate issues -----
+    const candidates: PostureIssue[] = [];
+
+    if (tooClose) candidates.push("too_close");
+    if (tooFar) candidates.push("too_far");
+
+    if (headDown) candidates.push("head_down");
+    if (headUp) candidates.push("head_up");
+    if (headTiltLeft) candidates.push("head_tilt_left");
+    if (headTiltRight) candidates.push("head_tilt_right");
+
+    if (shouldersUneven) candidates.push("shoulders_unlevel");
+    if (shouldersDepthMisaligned) candidates.push("shoulders_depth_misaligned");
+
+    if (isBodyLeaningLeft) candidates.push("body_lean_left");
+    if (isBodyLeaningRight) candidates.push("body_lean_right");
+
+    if (back.isSlouch) candidates.push("slouch");
+    if (back.backNotStraight) candidates.push("back_not_straight");
+    if (lean.state === "lean_left") candidates.push("lean_left");
+    if (lean.state === "lean_right") candidates.push("lean_right");
+
+    // ----- visibility gating: hidden landmarks neither raise nor clear an issue -----
+    const unchecked = uncheckableIssues(pose, { faceHead: faceHead != null, faceLost, disabled });
+    const unknown = new Set(unchecked);
+    const checked = candidates.filter((c) => !disabled.has(c) && !unknown.has(c));
+
+    // ----- stabilize -----
+    const activeIssues = stabilizer.update(now, checked, STABLE, unknown).filter((i) => !unknown.has(i));
+    const actives: PostureState[] = activeIssues;
+    const topIssue = pickPrimary(actives);
+    // "good" needs every enabled check to have run
+    primary = actives.length === 0 && unchecked.length > 0 ? "uncertain" : topIssue;
+
+    // ----- severity (0-1 per active issue) -----
+    const frameSeverity = computeSeverity(
+      checked,
+      {
+        rollDeg,
+        noseEyeDeltaY,
+        headPitchRelDeg: headPitchRel,
+        shouldersYDiff: absDiff(ls.y, rs.y),
+        shouldersZDiff: Math.abs((ls.z ?? 0) - (rs.z ?? 0)),
+        bodyOffsetX,
+        leanDeg: lean.tiltDeg,
+        neckLen: back.neckLen,
+        minNeckLen: back.minNeckLen,
+        forwardHeadZ: back.forwardHeadZ,
+        torsoPitchDeg: back.torso?.pitchDeg ?? null,
+        faceRatio: heldFaceArea != null && baselineFace ? heldFaceArea / baselineFace : null,
+        distanceCm,
+        minCm: config.distance.minCm,
+        maxCm: config.distance.maxCm,
+      },
+      TH
+    );
+    const severity: IssueSeverity = {};
+    for (const issue of activeIssues) {
+      const v = frameSeverity[issue] ?? heldSeverity[issue] ?? 0;
+      severity[issue] = Math.round(v * 100) / 100;
+    }
+    heldSeverity = { ...severity, ...frameSeverity };
+
+    // ----- metrics/flags (for events + coaching) -----
+    const metrics: PostureMetrics = {
+      rollDeg,
+      noseEyeDeltaY,
+      headYawDeg: faceHead?.yawDeg ?? null,
+      headPitchDeg: faceHead?.pitchDeg ?? null,
+      headRollDeg: faceHead?.rollDeg ?? null,
+      headPitchBaselineDeg: faceHead ? baselineHeadPitch : null,
+      shouldersYDiff: absDiff(ls.y, rs.y),
+      shouldersZDiff: Math.abs((ls.z ?? 0) - (rs.z ?? 0)),
+      forwardHead,
+      bodyOffsetX,
+      torsoFromVertical: back.torso ? Math.hypot(back.torso.pitchDeg, back.torso.lateralDeg) : Math.abs(lean.tiltDeg),
+      neckRatio: back.neckRatio,
+      torsoPitchDeg: back.torso?.pitchDeg ?? null,
+      hipsVisible: back.torso != null,
+      faceArea,
+      baseline: baselineFace,
+      distanceCm,
+      severity,
+    };
+
+    const flags: PostureFlags = {
+      headTiltLeft,
+      headTiltRight,
+      headDown,
+      headUp,
+      shouldersUneven,
+      shouldersDepthMisaligned,
+      forwardHead,
+      slouch: back.isSlouch,
+      backNotStraight: back.backNotStraight,
+      isLeaningLeft: lean.state === "lean_left",
+      isLeaningRight: lean.state === "lean_right",
+      isBodyLeaningLeft,
+      isBodyLeaningRight,
+      tooClose,
+      tooFar,
+    };
+
+    // ----- calibration wizard (alerts + coaching are quiet meanwhile) -----
+    const calibration = calibrator
+      ? calibrator.add({
+          ts: now,
+          shoulderX: shoulderMid.x,
+          neckY,
+          faceArea,
+          minVis,
+          rollDeg,
+          shouldersYDiff: metrics.shouldersYDiff,
+          headPitchDeg: input.faceRan ? faceHead?.pitchDeg ?? null : null,
+        })
+      : null;
+
+    if (calibrator) {
+      coach.skip(now);
+    } else {
+      const reminder = coach.tick(now, actives, primary, metrics, flags);
+      if (reminder) events.push({ type: "coach_reminder", ts: clock(), payload: reminder });
+
+      const cooledDown = lastPostureAlertAt == null || now - lastPostureAlertAt >= config.coach.alertCooldownMs;
+      if (topIssue !== "good" && cooledDown) {
+        lastPostureAlertAt = now;
+        events.push({
+          type: "posture_alert",
+          ts: clock(),
+          payload: { state: topIssue, score: severity[topIssue] ?? 0, metrics, flags },
+        });
+      }
+    }
+
+    return {
+      ts: now,
+      wallTs: clock(),
+      primary,
+      actives,
+      unchecked,
+      candidates: checked,
+      metrics,
+      flags,
+      focus,
+      head,
+      faceArea,
+      distanceCm,
+      blinkMs,
+      eye,
+      calibration,
+      pose,
+      rawPose: displayRaw,
+      hipsVisible: back.torso != null,
+      events,
+    };
+  }
+
+  function focalRatio() {
+    return config.distance.focalRatio ?? focalRatioFromFov(config.distance.cameraFovDeg);
+  }
+
+  /**
+   * Focal ratio (DistanceSettings.focalRatio) that makes the recent iris
+   * size read as `knownCm`; null until enough iris frames were seen.
+   */
+  function measureFocalRatio(knownCm: number): number | null {
+    if (irisSamples.length < IRIS_WINDOW / 2 || knownCm <= 0) return null;
+    const sorted = [...irisSamples].sort((a, b) => a - b);
+    return focalRatioAt(sorted[Math.floor(sorted.length / 2)], knownCm);
+  }
+
+  /** Live settings (thresholds, timing, focus mode) — no reset needed. */
+  function configure(patch: Partial<AnalyzerConfig>) {
+    const prev = config.smoothing;
+    config = { ...config, ...patch };
+    if (patch.coach) coach.configure(patch.coach);
+    const next = config.smoothing;
+    if (
+      next.filter !== prev.filter ||
+      next.minCutoffHz !== prev.minCutoffHz ||
+      next.beta !== prev.beta ||
+      next.kalmanProcessNoise !== prev.kalmanProcessNoise ||
+      next.kalmanMeasurementNoise !== prev.kalmanMeasurementNoise
+    ) {
+      poseSmoother.configure(next);
+      faceSmoother.configure(next);
+    }
+  }
+
+  /** Saved calibration (or null to fall back to per-run averaging). */
+  function setBaseline(b: PostureBaseline | null) {
+    calibrated = b;
+    resetBaselines();
+    stabilizer.reset();
+  }
+
+  function startCalibration(requireFace: boolean) {
+    calibrator = createCalibrator({ requireFace });
+  }
+
+  function cancelCalibration() {
+    calibrator = null;
+  }
+
+  function calibrationResult() {
+    return calibrator?.result() ?? null;
+  }
+
+  /** Forget all run state (keeps config + calibrated baseline). */
+  function reset() {
+    stabilizer.reset();
+    coach.reset();
+    focusTracker.reset();
+    blinkDetector.reset();
+    eyeWindow.reset();
+    poseSmoother.reset();
+    faceSmoother.reset();
+    calibrator = null;
+    primary = "no_person";
+    heldSeverity = {};
+    lastFaceHead = null;
+    lastDistance = null;
+    lastFaceArea = null;
+    lastFocus = null;
+    irisSamples = [];
+    faceLost = false;
+    lastPostureAlertAt = null;
+    startedAt = null;
+    eye = null;
+    lastEyeSnapshotAt = null;
+    resetBaselines();
+  }
+
+  return {
+    analyze,
+    configure,
+    setBaseline,
+    startCalibration,
+    cancelCalibration,
+    calibrationResult,
+    measureFocalRatio,
+    reset,
+    get calibrating() {
+      return calibrator != null;
+    },
+  };
+}
+
+export type FrameAnalyzer = ReturnType<typeof createFrameAnalyzer>;
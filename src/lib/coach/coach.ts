@@ -0,0 +1,192 @@
+import type { CoachReminderPayload, PostureFlags, PostureMetrics, PostureState } from "@/types";
+import type { CoachProfile, CoachSettings, CoachTiming } from "@/types/contracts";
+import { isBadState } from "@/lib/posture/stability";
+
+/**
+ * Named timing profiles. "standard" is the everyday tuning (2 min window,
+ * 6 min between reminders); "demo" nags every 15 s so a walk-through shows
+ * reminders quickly.
+ */
+export const COACH_PROFILES: Record<Exclude<CoachProfile, "custom">, CoachTiming> = {
+  demo: {
+    windowMs: 15_000,
+    badDominanceMs: 10_000,
+    continuousBadMs: 15_000,
+    cooldownMs: 15_000,
+    alertCooldownMs: 15_000,
+  },
+  gentle: {
+    windowMs: 300_000,
+    badDominanceMs: 210_000,
+    continuousBadMs: 240_000,
+    cooldownMs: 900_000,
+    alertCooldownMs: 120_000,
+  },
+  standard: {
+    windowMs: 120_000,
+    badDominanceMs: 90_000,
+    continuousBadMs: 120_000,
+    cooldownMs: 360_000,
+    alertCooldownMs: 60_000,
+  },
+  strict: {
+    windowMs: 60_000,
+    badDominanceMs: 40_000,
+    continuousBadMs: 45_000,
+    cooldownMs: 120_000,
+    alertCooldownMs: 30_000,
+  },
+};
+
+/** Profile (or the custom values) -> what the coach and posture alerts actually use. */
+export function resolveCoachTiming(settings: CoachSettings | undefined): CoachTiming {
+  if (settings?.profile === "custom") return { ...COACH_PROFILES.standard, ...settings.custom };
+  return COACH_PROFILES[settings?.profile ?? "standard"] ?? COACH_PROFILES.standard;
+}
+
+/**
+ * Rolling good/bad window behind coach_reminder:
+ * - immediate reminder when one bad state lasts continuousBadMs
+ * - window-end reminder when bad time dominated the last windowMs
+ * Both share one cooldown so the user is never spammed.
+ */
+export function createCoachTracker(initial: CoachTiming = COACH_PROFILES.standard) {
+  let timing = initial;
+  let lastTick: number | null = null;
+  let windowStart: number | null = null;
+  let goodMs = 0;
+  let badMs = 0;
+  const stateMs = new Map<PostureState, number>();
+  const continuousMs = new Map<PostureState, number>();
+  let lastReminderAt = 0;
+
+  function tick(
+    now: number,
+    actives: PostureState[],
+    primary: PostureState,
+    metrics: PostureMetrics,
+    flags: PostureFlags
+  ): CoachReminderPayload | null {
+    // Don’t coach if no person (or we can't see enough to judge)
+    if (primary === "no_person" || primary === "uncertain") {
+      skip(now);
+      return null;
+    }
+
+    // initialize tick
+    if (lastTick == null) {
+      lastTick = now;
+      windowStart = now;
+      return null;
+    }
+
+    const dt = Math.max(0, now - lastTick);
+    lastTick = now;
+
+    // init window
+    if (windowStart == null) windowStart = now;
+
+    // update good/bad window accumulation
+    if (actives.some(isBadState)) badMs += dt;
+    else goodMs += dt;
+
+    // per-state time (only count active issues; if none -> count "good")
+    if (actives.length === 0) {
+      stateMs.set("good", (stateMs.get("good") ?? 0) + dt);
+    } else {
+      for (const s of actives) stateMs.set(s, (stateMs.get(s) ?? 0) + dt);
+    }
+
+    // continuous tracking: add dt to each active, reset inactive
+    const activeSet = new Set(actives.length ? actives : (["good"] as PostureState[]));
+    const keys = new Set<PostureState>([...continuousMs.keys(), ...activeSet]);
+    keys.forEach((k) => {
+      const prev = continuousMs.get(k) ?? 0;
+      continuousMs.set(k, activeSet.has(k) ? prev + dt : 0);
+    });
+
+    const cooledDown = now - lastReminderAt >= timing.cooldownMs;
+
+    // Immediate reminder: one BAD state continuously
+    if (cooledDown) {
+      for (const s of actives) {
+        if (isBadState(s) && (continuousMs.get(s) ?? 0) >= timing.continuousBadMs) {
+          lastReminderAt = now;
+          // reset continuous for that state so it won't fire again immediately
+          continuousMs.set(s, 0);
+          return {
+            states: actives,
+            primary,
+            windowMs: timing.windowMs,
+            goodMs,
+            badMs,
+            topBad: s,
+            metrics,
+            flags,
+          };
+        }
+      }
+    }
+
+    // Window-end reminder: bad dominated the window
+    const elapsed = now - windowStart;
+    if (elapsed < timing.windowMs) return null;
+
+    // choose top bad in window
+    let topBad: PostureState | undefined = undefined;
+    let topMs = 0;
+    for (const [k, ms] of stateMs.entries()) {
+      if (isBadState(k) && ms > topMs) {
+        topMs = ms;
+        topBad = k;
+      }
+    }
+
+    let reminder: CoachReminderPayload | null = null;
+    if (cooledDown && badMs >= timing.badDominanceMs) {
+      lastReminderAt = now;
+      reminder = {
+        states: actives.length ? actives : ["good"],
+        primary: actives.length ? primary : "good",
+        windowMs: timing.windowMs,
+        goodMs,
+        badMs,
+        topBad,
+        metrics,
+        flags,
+      };
+    }
+
+    // reset window
+    windowStart = now;
+    goodMs = 0;
+    badMs = 0;
+    stateMs.clear();
+
+    return reminder;
+  }
+
+  /** Time up to `now` is neither good nor bad: the next tick only credits what follows. */
+  function skip(now: number) {
+    if (lastTick != null) lastTick = now;
+  }
+
+  /** New timing applies from the next tick; the current window keeps its start. */
+  function configure(next: CoachTiming) {
+    timing = next;
+  }
+
+  function reset() {
+    lastTick = null;
+    windowStart = null;
+    goodMs = 0;
+    badMs = 0;
+    stateMs.clear();
+    continuousMs.clear();
+    lastReminderAt = 0;
+  }
+
+  return { tick, skip, configure, reset };
+}
+
+export type CoachTracker = ReturnType<typeof createCoachTracker>;
@@ -1,8 +1,8 @@
 "use client";
 
-import { useEffect, useRef } from "react";
+import { useEffect } from "react";
 import { toast } from "sonner";
-import type { MonitoringEngine, PostureState, CoachReminderPayload } from "@/types";
+import type { MonitoringEngine, PostureState } from "@/types";
 
 function titleFor(primary: PostureState) {
   switch (primary) {
@@ -24,6 +24,11 @@ function titleFor(primary: PostureState) {
     case "body_lean_left":
     case "body_lean_right":
       return "Body leaning";
+    case "lean_left":
+    case "lean_right":
+      return "Leaning to one side";
+    case "slouch":
+      return "Slouching detected";
     case "back_not_straight":
       return "Back not straight";
     default:
@@ -44,6 +49,9 @@ function adviceFor(states: PostureState[]) {
   if (states.includes("shoulders_depth_misaligned")) tips.push("Square shoulders to the camera.");
   if (states.includes("body_lean_left") || states.includes("body_lean_right"))
     tips.push("Sit centered: feet flat, weight even.");
+  if (states.includes("lean_left") || states.includes("lean_right"))
+    tips.push("Straighten up over both hips.");
+  if (states.includes("slouch")) tips.push("Lift your chest and lengthen your neck.");
   if (states.includes("back_not_straight")) tips.push("Sit tall: chest up, shoulders back.");
 
   tips.push("Quick reset: roll shoulders + blink slowly.");
@@ -72,30 +80,40 @@ function showBrowserNotification(title: string, body: string) {
 }
 
 /**
- * Listen to engine.events; when a coach_reminder comes in,
- * show a Sonner toast + a browser notification.
+ * Subscribe to the engine's coach_reminder and distraction_alert events and
+ * show a Sonner toast + a browser notification for each. Replayed events are
+ * ignored: a recording or the demo must not nag the user.
  */
-export function useCoachNotifier(engine: MonitoringEngine) {
-  const lastHandledTsRef = useRef<number>(0);
+export function useCoachNotifier(engine: Pick<MonitoringEngine, "on">) {
+  const { on } = engine;
 
   useEffect(() => {
-    const e = engine.events?.[0];
-    if (!e) return;
-
-    if (e.type !== "coach_reminder") return;
-    if (e.ts <= lastHandledTsRef.current) return;
-    lastHandledTsRef.current = e.ts;
+    const offDistraction = on("distraction_alert", (e) => {
+      if (e.replay) return;
+      const title = e.payload.state === "away" ? "You stepped away" : "Eyes back on the screen?";
+      const body = `Focus mode: ${Math.round(e.payload.durationMs / 1000)}s ${
+        e.payload.state === "away" ? "away" : "looking away"
+      }.`;
+      toast(title, { description: body, duration: 8000 });
+      showBrowserNotification(title, body);
+    });
 
-    const payload = e.payload as CoachReminderPayload;
+    const offCoach = on("coach_reminder", (e) => {
+      if (e.replay) return;
+      const title = titleFor(e.payload.primary);
+      const body = adviceFor(e.payload.states);
 
-    const title = titleFor(payload.primary);
-    const body = adviceFor(payload.states);
+      toast(title, {
+        description: body,
+        duration: 15000, // ✅ 15s (was 7000)
+      });
 
-    toast(title, {
-      description: body,
-      duration: 15000, // ✅ 15s (was 7000)
+      showBrowserNotification(title, body);
     });
 
-    showBrowserNotification(title, body);
-  }, [engine.events]);
+    return () => {
+      offDistraction();
+      offCoach();
+    };
+  }, [on]);
 }
\ No newline at end of file
@@ -0,0 +1,50 @@
+import type { MonitoringEvent, MonitoringEventOf, MonitoringEventType } from "@/types";
+
+type Handler = (e: MonitoringEvent) => void;
+
+/**
+ * Synchronous pub/sub for engine events. Every subscriber sees every event,
+ * in emit order, independent of React renders; a throwing handler is logged
+ * and doesn't stop the others.
+ */
+export function createEventBus() {
+  const handlers = new Map<MonitoringEventType | "*", Set<Handler>>();
+
+  function add(key: MonitoringEventType | "*", handler: Handler) {
+    let set = handlers.get(key);
+    if (!set) handlers.set(key, (set = new Set()));
+    set.add(handler);
+    return () => {
+      set.delete(handler);
+    };
+  }
+
+  /** Handler for one event type, with that variant's payload; returns the unsubscribe function. */
+  function on<T extends MonitoringEventType>(type: T, handler: (e: MonitoringEventOf<T>) => void) {
+    return add(type, handler as Handler);
+  }
+
+  /** Handler for every event; returns the unsubscribe function. */
+  function onAny(handler: Handler) {
+    return add("*", handler);
+  }
+
+  function emit(e: MonitoringEvent) {
+    for (const key of [e.type, "*"] as const) {
+      const set = handlers.get(key);
+      if (!set) continue;
+      // copy, so handlers may unsubscribe while being called
+      for (const h of [...set]) {
+        try {
+          h(e);
+        } catch (err) {
+          console.warn(`[events] ${e.type} handler failed`, err);
+        }
+      }
+    }
+  }
+
+  return { on, onAny, emit };
+}
+
+export type EventBus = ReturnType<typeof createEventBus>;
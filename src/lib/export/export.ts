@@ -1,4 +1,6 @@
 import type { MinuteBucket, Session, AppEvent } from "@/types/contracts";
+import { POSTURE_STATES, normalizePostureSec } from "@/lib/posture/taxonomy";
+import { fatigueWeight } from "@/lib/stats/compute";
 
 function download(filename: string, content: string, mime: string) {
   const blob = new Blob([content], { type: mime });
@@ -19,43 +21,40 @@ export function exportBucketsCSV(filename: string, buckets: MinuteBucket[]) {
     "id",
     "sessionId",
     "minuteTs",
-    "good",
-    "slouch",
-    "lean_left",
-    "lean_right",
-    "too_close",
-    "shoulder_imbalance",
+    ...POSTURE_STATES,
+    "uncertain",
     "screenFacing",
     "lookingAway",
     "away",
     "blinkCount",
     "fatigueAvg",
+    "fatigueSec",
     "alertCount",
     "breakRem",
     "waterRem",
     "stretchRem",
   ];
 
-  const rows = buckets.map((b) => [
-    b.id,
-    b.sessionId,
-    b.minuteTs,
-    b.postureSec.good ?? 0,
-    b.postureSec.slouch ?? 0,
-    b.postureSec.lean_left ?? 0,
-    b.postureSec.lean_right ?? 0,
-    b.postureSec.too_close ?? 0,
-    b.postureSec.shoulder_imbalance ?? 0,
-    b.focusSec.screenFacing ?? 0,
-    b.focusSec.lookingAway ?? 0,
-    b.focusSec.away ?? 0,
-    b.blinkCount ?? 0,
-    b.fatigueAvg ?? 0,
-    b.alertCount ?? 0,
-    b.reminderCount.break ?? 0,
-    b.reminderCount.water ?? 0,
-    b.reminderCount.stretch ?? 0,
-  ]);
+  const rows = buckets.map((b) => {
+    const postureSec = normalizePostureSec(b.postureSec ?? {});
+    return [
+      b.id,
+      b.sessionId,
+      b.minuteTs,
+      ...POSTURE_STATES.map((s) => postureSec[s] ?? 0),
+      b.uncertainSec ?? 0,
+      b.focusSec.screenFacing ?? 0,
+      b.focusSec.lookingAway ?? 0,
+      b.focusSec.away ?? 0,
+      b.blinkCount ?? 0,
+      b.fatigueAvg ?? 0,
+      fatigueWeight(b),
+      b.alertCount ?? 0,
+      b.reminderCount.break ?? 0,
+      b.reminderCount.water ?? 0,
+      b.reminderCount.stretch ?? 0,
+    ];
+  });
 
   const csv = [header.join(","), ...rows.map((r) => r.join(","))].join("\n");
   download(filename, csv, "text/csv");
@@ -0,0 +1,114 @@
+/**
+ * Blink detection from FaceLandmarker blendshapes (eyeBlinkLeft/eyeBlinkRight).
+ *
+ * Raw blink scores differ a lot between people (eye shape, glasses, camera
+ * angle), so thresholds are relative to a per-user calibration:
+ * - openLevel: typical score with eyes open (learned during the first
+ *   BLINK.calibrationMs, then tracked slowly while eyes are open)
+ * - closedLevel: typical peak score during a blink (tracked per blink)
+ * A blink starts above the close threshold and ends below the (lower)
+ * reopen threshold — the gap is the hysteresis that stops flicker from
+ * double-counting.
+ */
+export const BLINK = {
+  calibrationMs: 2_000,
+  closeAt: 0.55, // fraction of the open->closed range
+  reopenAt: 0.3,
+  minBlinkMs: 40,
+  maxBlinkMs: 500, // longer closures are not blinks (still count as closed time)
+  minFaceFps: 15, // a blink lasts 100-150 ms; slower face sampling misses most of them
+  defaultClosedLevel: 0.6,
+  openAlpha: 0.02, // EMA rates
+  closedAlpha: 0.2,
+};
+
+type Category = { categoryName?: string; score: number };
+
+/** Average eyeBlinkLeft/Right from a blendshape category list, or null if missing. */
+export function blinkScoreFromBlendshapes(categories: Category[] | undefined): number | null {
+  if (!categories?.length) return null;
+  let l: number | null = null;
+  let r: number | null = null;
+  for (const c of categories) {
+    if (c.categoryName === "eyeBlinkLeft") l = c.score;
+    else if (c.categoryName === "eyeBlinkRight") r = c.score;
+  }
+  if (l == null || r == null) return null;
+  return (l + r) / 2;
+}
+
+export type BlinkUpdate = {
+  closed: boolean;
+  /** Set on the frame a blink ends */
+  blinkMs?: number;
+  calibrated: boolean;
+};
+
+export function createBlinkDetector() {
+  let startTs: number | null = null;
+  const calib: number[] = [];
+
+  let openLevel: number | null = null;
+  let closedLevel = BLINK.defaultClosedLevel;
+
+  let closed = false;
+  let closedSince = 0;
+  let peak = 0;
+
+  function thresholds() {
+    const open = openLevel ?? 0;
+    const range = Math.max(0.15, closedLevel - open);
+    return { close: open + BLINK.closeAt * range, reopen: open + BLINK.reopenAt * range };
+  }
+
+  function update(ts: number, score: number): BlinkUpdate {
+    if (startTs == null) startTs = ts;
+
+    if (openLevel == null) {
+      calib.push(score);
+      if (ts - startTs < BLINK.calibrationMs) return { closed: false, calibrated: false };
+      // median ignores the odd blink during calibration
+      const sorted = [...calib].sort((a, b) => a - b);
+      openLevel = sorted[Math.floor(sorted.length / 2)];
+    }
+
+    const th = thresholds();
+
+    if (!closed) {
+      if (score >= th.close) {
+        closed = true;
+        closedSince = ts;
+        peak = score;
+      } else {
+        openLevel += BLINK.openAlpha * (score - openLevel);
+      }
+      return { closed, calibrated: true };
+    }
+
+    peak = Math.max(peak, score);
+    if (score > th.reopen) return { closed: true, calibrated: true };
+
+    // reopened
+    closed = false;
+    const dur = ts - closedSince;
+    closedLevel += BLINK.closedAlpha * (peak - closedLevel);
+
+    if (dur >= BLINK.minBlinkMs && dur <= BLINK.maxBlinkMs) {
+      return { closed: false, blinkMs: dur, calibrated: true };
+    }
+    return { closed: false, calibrated: true };
+  }
+
+  function reset() {
+    startTs = null;
+    calib.length = 0;
+    openLevel = null;
+    closedLevel = BLINK.defaultClosedLevel;
+    closed = false;
+    peak = 0;
+  }
+
+  return { update, reset };
+}
+
+export type BlinkDetector = ReturnType<typeof createBlinkDetector>;
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { createEyeWindow } from "./fatigue";
+
+const FRAME_MS = 1000 / 15;
+
+/** Feeds open-eye frames over [from, to) with a blink every `blinkEveryMs`, starting half a period in. */
+function feed(w: ReturnType<typeof createEyeWindow>, from: number, to: number, blinkEveryMs: number) {
+  let nextBlink = from + blinkEveryMs / 2;
+  for (let t = from; t < to; t += FRAME_MS) {
+    const blink = t >= nextBlink;
+    if (blink) nextBlink += blinkEveryMs;
+    w.add(t, false, blink ? 200 : undefined);
+  }
+}
+
+describe("createEyeWindow", () => {
+  it("needs some eye data before it reports a rate", () => {
+    const w = createEyeWindow();
+    feed(w, 0, 5_000, 4_000);
+    expect(w.snapshot(0)).toBeNull();
+  });
+
+  it("measures blinks per minute of eye data", () => {
+    const w = createEyeWindow();
+    feed(w, 0, 60_000, 4_000);
+    expect(w.snapshot(0)!.blinksPerMin).toBeCloseTo(15, 0);
+  });
+
+  it("doesn't count time without a face as time without blinks", () => {
+    const w = createEyeWindow();
+    feed(w, 0, 20_000, 4_000);
+    // 25 s away, then back: the rate stays at the rate seen while a face was there
+    feed(w, 45_000, 60_000, 4_000);
+    const rate = w.snapshot(0)!.blinksPerMin;
+    expect(rate).toBeGreaterThan(14);
+    expect(rate).toBeLessThan(16);
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Eye-fatigue score (0 = fresh, 100 = very tired), from the last minute of
+ * eye data plus how long the session has run:
+ *
+ *   35%  blink rate    — distance from a relaxed 12–22 blinks/min band
+ *                        (staring at a screen drops it, tiredness raises it)
+ *   30%  eye closure   — PERCLOS, share of time eyes were closed; 15% = max
+ *   15%  blink length  — mean blink duration; 150ms normal, 400ms+ = max
+ *   20%  session time  — minutes monitored in this session; 120 min = max
+ *
+ * It is a heuristic signal for nudges and trends, not a medical measure.
+ */
+export const FATIGUE = {
+  windowMs: 60_000,
+  rateLow: 12,
+  rateHigh: 22,
+  rateSpan: 10, // blinks/min outside the band that maps to 1
+  perclosMax: 0.15,
+  blinkMsNormal: 150,
+  blinkMsMax: 400,
+  sessionMinMax: 120,
+  weights: { rate: 0.35, closure: 0.3, duration: 0.15, session: 0.2 },
+};
+
+const clamp01 = (n: number) => Math.max(0, Math.min(1, n));
+
+export type FatigueInputs = {
+  blinksPerMin: number;
+  perclos: number; // 0..1
+  meanBlinkMs: number | null;
+  sessionMin: number;
+};
+
+export function fatigueScore(x: FatigueInputs) {
+  const off = x.blinksPerMin < FATIGUE.rateLow ? FATIGUE.rateLow - x.blinksPerMin : x.blinksPerMin - FATIGUE.rateHigh;
+  const rate = clamp01(off / FATIGUE.rateSpan);
+  const closure = clamp01(x.perclos / FATIGUE.perclosMax);
+  const duration =
+    x.meanBlinkMs == null
+      ? 0
+      : clamp01((x.meanBlinkMs - FATIGUE.blinkMsNormal) / (FATIGUE.blinkMsMax - FATIGUE.blinkMsNormal));
+  const session = clamp01(x.sessionMin / FATIGUE.sessionMinMax);
+
+  const w = FATIGUE.weights;
+  return Math.round(100 * (w.rate * rate + w.closure * closure + w.duration * duration + w.session * session));
+}
+
+export type EyeSnapshot = FatigueInputs & { fatigue: number };
+
+/** Less eye data than this in the window gives no rate. */
+const MIN_EYE_MS = 10_000;
+
+/**
+ * Rolling one-minute window of blinks and eye-closed time. The blink rate is
+ * per second of eye data, so time without a face doesn't count as no blinks.
+ */
+export function createEyeWindow() {
+  let blinks: { ts: number; ms: number }[] = [];
+  let frames: { ts: number; dt: number; closed: boolean }[] = [];
+  let lastTs: number | null = null;
+
+  function add(ts: number, closed: boolean, blinkMs?: number) {
+    const dt = lastTs == null ? 0 : Math.min(1000, ts - lastTs);
+    lastTs = ts;
+
+    frames.push({ ts, dt, closed });
+    if (blinkMs != null) blinks.push({ ts, ms: blinkMs });
+
+    const cutoff = ts - FATIGUE.windowMs;
+    if (frames[0]?.ts < cutoff) frames = frames.filter((f) => f.ts >= cutoff);
+    if (blinks[0]?.ts < cutoff) blinks = blinks.filter((b) => b.ts >= cutoff);
+  }
+
+  function snapshot(sessionMs: number): EyeSnapshot | null {
+    // gaps between eye frames are capped in add(), so absences add almost nothing
+    let total = 0;
+    let closedMs = 0;
+    for (const f of frames) {
+      total += f.dt;
+      if (f.closed) closedMs += f.dt;
+    }
+    if (total < MIN_EYE_MS) return null; // not enough data for a rate
+
+    const inputs: FatigueInputs = {
+      blinksPerMin: (blinks.length * 60_000) / total,
+      perclos: closedMs / total,
+      meanBlinkMs: blinks.length ? blinks.reduce((a, b) => a + b.ms, 0) / blinks.length : null,
+      sessionMin: sessionMs / 60_000,
+    };
+    return { ...inputs, fatigue: fatigueScore(inputs) };
+  }
+
+  function reset() {
+    blinks = [];
+    frames = [];
+    lastTs = null;
+  }
+
+  return { add, snapshot, reset };
+}
+
+export type EyeWindow = ReturnType<typeof createEyeWindow>;
@@ -0,0 +1,63 @@
+import type { FocusState, UserSettings } from "@/types/contracts";
+import type { HeadPose } from "@/lib/posture/headPose";
+
+/** Head turned further than this from the camera axis counts as looking away. */
+export const FOCUS = {
+  maxYawDeg: 30,
+  maxPitchDeg: 25,
+};
+
+/**
+ * Per-frame focus classification.
+ * - no person / no face => away
+ * - face found but head turned/tilted past FOCUS => looking_away
+ */
+export function classifyFocus(personPresent: boolean, head: HeadPose | null, faceFound: boolean): FocusState {
+  if (!personPresent || !faceFound) return "away";
+  if (!head) return "screen_facing";
+  if (Math.abs(head.yawDeg) > FOCUS.maxYawDeg || Math.abs(head.pitchDeg) > FOCUS.maxPitchDeg) return "looking_away";
+  return "screen_facing";
+}
+
+export type DistractionAlert = { state: Exclude<FocusState, "screen_facing">; durationMs: number };
+
+/**
+ * Tracks how long the current focus state has lasted and raises one
+ * distraction alert per episode once the configured threshold is passed.
+ */
+export function createFocusTracker() {
+  let state: FocusState | null = null;
+  let since = 0;
+  let alerted = false;
+
+  function update(
+    now: number,
+    next: FocusState,
+    settings: Pick<UserSettings, "focusMode" | "distraction">
+  ): DistractionAlert | null {
+    if (next !== state) {
+      state = next;
+      since = now;
+      alerted = false;
+    }
+    if (state === "screen_facing" || alerted || !settings.focusMode) return null;
+
+    const durationMs = now - since;
+    const limitSec =
+      state === "away" ? settings.distraction.awayThresholdSec : settings.distraction.lookAwayThresholdSec;
+
+    if (durationMs < limitSec * 1000) return null;
+    alerted = true;
+    return { state, durationMs };
+  }
+
+  function reset() {
+    state = null;
+    since = 0;
+    alerted = false;
+  }
+
+  return { update, reset };
+}
+
+export type FocusTracker = ReturnType<typeof createFocusTracker>;
@@ -4,6 +4,8 @@ Strict rules:
 - Output ONLY valid JSON. No markdown. No code fences.
 - Do NOT diagnose medical conditions. Use wording like "signals" and "patterns".
 - Be concise and actionable.
+- postureSec is seconds per posture state; severitySec is the same time weighted by 0-1 severity (how far past the threshold).
+- uncertainSec is time the user was in view but partly hidden, so posture could not be judged; it is neither good nor bad.
 `;
 
 export function summaryPrompt(payload: unknown) {
@@ -0,0 +1,108 @@
+import type { CalibrationStatus } from "@/types";
+import type { PostureBaseline } from "@/types/contracts";
+
+/** One frame's worth of the signals a baseline is built from. */
+export type CalibrationSample = {
+  ts: number;
+  shoulderX: number;
+  neckY: number;
+  faceArea: number | null;
+  minVis: number; // min shoulder visibility
+  rollDeg: number;
+  shouldersYDiff: number;
+  /** Face-matrix pitch; null when no face was tracked this frame */
+  headPitchDeg: number | null;
+};
+
+/** Quality gates for a usable baseline. */
+export const CALIBRATION = {
+  holdMs: 3_000,
+  minVisibility: 0.5,
+  maxRollDeg: 8,
+  maxShouldersYDiff: 0.03,
+  maxShoulderXStd: 0.012,
+  maxNeckYStd: 0.012,
+  maxFaceAreaCv: 0.08, // std / mean
+  minFaceRatio: 0.6, // share of samples with a face when face tracking is on
+};
+
+function mean(xs: number[]) {
+  return xs.reduce((a, b) => a + b, 0) / xs.length;
+}
+
+function std(xs: number[]) {
+  const m = mean(xs);
+  return Math.sqrt(mean(xs.map((x) => (x - m) ** 2)));
+}
+
+/**
+ * Sliding-window calibrator: the user must sit well and hold still for
+ * CALIBRATION.holdMs. Any bad frame or too much movement restarts the hold.
+ */
+export function createCalibrator(opts: { requireFace: boolean }) {
+  let samples: CalibrationSample[] = [];
+
+  function frameProblems(s: CalibrationSample) {
+    const out: string[] = [];
+    if (s.minVis < CALIBRATION.minVisibility) out.push("Shoulders not clearly visible");
+    if (Math.abs(s.rollDeg) > CALIBRATION.maxRollDeg) out.push("Keep your head level");
+    if (s.shouldersYDiff > CALIBRATION.maxShouldersYDiff) out.push("Level your shoulders");
+    return out;
+  }
+
+  function windowProblems(win: CalibrationSample[]) {
+    const out: string[] = [];
+    if (std(win.map((s) => s.shoulderX)) > CALIBRATION.maxShoulderXStd) out.push("Hold still");
+    else if (std(win.map((s) => s.neckY)) > CALIBRATION.maxNeckYStd) out.push("Hold still");
+
+    const faces = win.map((s) => s.faceArea).filter((a): a is number => a != null);
+    if (opts.requireFace) {
+      if (faces.length < win.length * CALIBRATION.minFaceRatio) out.push("Face the screen");
+      else if (std(faces) / mean(faces) > CALIBRATION.maxFaceAreaCv) out.push("Keep the same distance");
+    }
+    return out;
+  }
+
+  function add(s: CalibrationSample): CalibrationStatus {
+    const bad = frameProblems(s);
+    if (bad.length) {
+      samples = [];
+      return { phase: "collecting", progress: 0, problems: bad };
+    }
+
+    samples.push(s);
+    samples = samples.filter((x) => s.ts - x.ts <= CALIBRATION.holdMs);
+
+    if (samples.length >= 5) {
+      const unstable = windowProblems(samples);
+      if (unstable.length) {
+        samples = [s];
+        return { phase: "collecting", progress: 0, problems: unstable };
+      }
+    }
+
+    const progress = Math.min(1, (s.ts - samples[0].ts) / CALIBRATION.holdMs);
+    return { phase: progress >= 1 ? "ready" : "collecting", progress, problems: [] };
+  }
+
+  /** Average of the current stable window, or null if the hold isn't complete. */
+  function result(): PostureBaseline | null {
+    if (samples.length < 2) return null;
+    if (samples[samples.length - 1].ts - samples[0].ts < CALIBRATION.holdMs * 0.95) return null;
+
+    const faces = samples.map((s) => s.faceArea).filter((a): a is number => a != null);
+    const pitches = samples.map((s) => s.headPitchDeg).filter((p): p is number => p != null);
+    return {
+      shoulderX: mean(samples.map((s) => s.shoulderX)),
+      neckY: mean(samples.map((s) => s.neckY)),
+      faceArea: faces.length ? mean(faces) : null,
+      headPitchDeg: pitches.length ? mean(pitches) : null,
+      capturedAt: Date.now(),
+      samples: samples.length,
+    };
+  }
+
+  return { add, result };
+}
+
+export type Calibrator = ReturnType<typeof createCalibrator>;
@@ -0,0 +1,41 @@
+type Landmark = { x: number; y: number; z?: number };
+
+/**
+ * Screen distance from the iris. The human iris is ~11.7 mm across with
+ * little variation between adults, so its size in the image plus the
+ * camera's focal length gives an absolute distance (pinhole model).
+ */
+
+export const IRIS_DIAMETER_CM = 1.17;
+
+/** Horizontal iris edge pairs in the 478-point face mesh (refined iris landmarks). */
+const IRIS_EDGES: [number, number][] = [
+  [469, 471],
+  [474, 476],
+];
+
+/**
+ * Mean iris diameter as a fraction of the frame width. `aspect` is
+ * height / width, since landmarks are normalized per axis.
+ */
+export function irisWidthRatio(face: Landmark[], aspect: number): number | null {
+  if (face.length < 478) return null;
+  const sizes = IRIS_EDGES.map(([a, b]) => Math.hypot(face[a].x - face[b].x, (face[a].y - face[b].y) * aspect)).filter(
+    (d) => d > 0
+  );
+  return sizes.length ? sizes.reduce((s, d) => s + d, 0) / sizes.length : null;
+}
+
+/** Focal length / frame width for a camera with the given horizontal field of view. */
+export function focalRatioFromFov(hfovDeg: number) {
+  return 0.5 / Math.tan(((hfovDeg / 2) * Math.PI) / 180);
+}
+
+/** Focal length / frame width that makes the current iris read as `knownCm`. */
+export function focalRatioAt(irisRatio: number, knownCm: number) {
+  return (irisRatio * knownCm) / IRIS_DIAMETER_CM;
+}
+
+export function distanceCmFromIris(irisRatio: number, focalRatio: number) {
+  return (focalRatio * IRIS_DIAMETER_CM) / irisRatio;
+}
@@ -0,0 +1,41 @@
+const rad2deg = (r: number) => (r * 180) / Math.PI;
+
+export type HeadPose = {
+  yawDeg: number; // + = turned to the camera's right
+  pitchDeg: number; // + = chin up
+  rollDeg: number; // + = tilted clockwise (camera view)
+};
+
+/**
+ * The same pose as seen in the preview: yaw and roll flip when the preview
+ * is mirrored, so + yaw is toward the screen's right and + roll is clockwise
+ * on screen (the sign convention of the ear-line roll).
+ */
+export function toDisplayHeadPose(head: HeadPose, mirror: boolean): HeadPose {
+  return mirror ? { yawDeg: -head.yawDeg, pitchDeg: head.pitchDeg, rollDeg: -head.rollDeg } : head;
+}
+
+/**
+ * Euler angles from a FaceLandmarker facial transformation matrix
+ * (4x4, column-major, rotation in the upper-left 3x3).
+ * Decomposed as R = Rz(a) * Ry(yaw) * Rx(b). The metric space is y-up with
+ * the face looking down +z, so a positive Rx turns the face down and a
+ * positive Rz turns it counter-clockwise on screen; both are negated to
+ * match the HeadPose conventions.
+ */
+export function headPoseFromMatrix(data: ArrayLike<number>): HeadPose | null {
+  if (!data || data.length < 16) return null;
+
+  const r00 = data[0];
+  const r10 = data[1];
+  const r20 = data[2];
+  const r21 = data[6];
+  const r22 = data[10];
+
+  const sy = Math.max(-1, Math.min(1, -r20));
+  return {
+    yawDeg: rad2deg(Math.asin(sy)),
+    pitchDeg: -rad2deg(Math.atan2(r21, r22)),
+    rollDeg: -rad2deg(Math.atan2(r10, r00)),
+  };
+}
@@ -1,4 +1,5 @@
 import type { PostureState } from "@/types";
+import type { PostureThresholds } from "@/types/contracts";
 
 type Landmark = { x: number; y: number; z?: number; visibility?: number };
 
@@ -6,41 +7,166 @@ const IDX = {
   NOSE: 0,
   LEFT_SHOULDER: 11,
   RIGHT_SHOULDER: 12,
+  LEFT_HIP: 23,
+  RIGHT_HIP: 24,
 } as const; // indices from MediaPipe pose mapping  [oai_citation:6‡Google AI for Developers](https://ai.google.dev/edge/mediapipe/solutions/vision/pose_landmarker)
 
+/** Hips must be this visible (and inside the frame) to use the torso path. */
+const HIP_MIN_VISIBILITY = 0.5;
+
+const rad2deg = (r: number) => (r * 180) / Math.PI;
+
 function clamp01(n: number) {
   return Math.max(0, Math.min(1, n));
 }
 
-export function computeLeanState(pose: Landmark[]): { state: PostureState; tiltRad: number } {
+function mid(a: Landmark, b: Landmark): Landmark {
+  return {
+    x: (a.x + b.x) / 2,
+    y: (a.y + b.y) / 2,
+    z: a.z != null && b.z != null ? (a.z + b.z) / 2 : undefined,
+  };
+}
+
+/**
+ * Torso axis (hip-mid -> shoulder-mid) when both hips are visible.
+ * pitchDeg > 0: shoulders forward of hips (hunched); lateralDeg > 0: shoulders
+ * to the right of the hips in the (possibly mirrored) image.
+ */
+export function torsoAngles(pose: Landmark[]): { pitchDeg: number; lateralDeg: number } | null {
+  const ls = pose[IDX.LEFT_SHOULDER];
+  const rs = pose[IDX.RIGHT_SHOULDER];
+  const lh = pose[IDX.LEFT_HIP];
+  const rh = pose[IDX.RIGHT_HIP];
+  if (!ls || !rs || !lh || !rh) return null;
+
+  const vis = Math.min(lh.visibility ?? 1, rh.visibility ?? 1);
+  if (vis < HIP_MIN_VISIBILITY || lh.y > 1 || rh.y > 1) return null;
+
+  const s = mid(ls, rs);
+  const h = mid(lh, rh);
+  const up = h.y - s.y; // torso height in image space
+  if (up <= 0) return null;
+
+  return {
+    pitchDeg: rad2deg(Math.atan2((h.z ?? 0) - (s.z ?? 0), up)),
+    lateralDeg: rad2deg(Math.atan2(s.x - h.x, up)),
+  };
+}
+
+/** Upper-body lean also needs the head carried this far (x shoulder width) toward the low side. */
+const LEAN_HEAD_SHIFT = 0.08;
+
+/**
+ * Sideways lean of the trunk. Uses the torso axis when hips are visible.
+ * Otherwise the shoulder line must tilt AND the head must travel with it,
+ * which keeps a lean apart from merely uneven shoulders.
+ */
+export function computeLeanState(
+  pose: Landmark[],
+  th: Pick<PostureThresholds, "torsoLeanDeg">
+): { state: PostureState; tiltDeg: number; source: "torso" | "shoulders" } {
+  const nose = pose[IDX.NOSE];
   const ls = pose[IDX.LEFT_SHOULDER];
   const rs = pose[IDX.RIGHT_SHOULDER];
-  if (!ls || !rs) return { state: "no_person", tiltRad: 0 };
+  if (!nose || !ls || !rs) return { state: "no_person", tiltDeg: 0, source: "shoulders" };
 
-  // shoulder line tilt: atan2(dy, dx)
-  const tiltRad = Math.atan2(rs.y - ls.y, rs.x - ls.x);
+  const torso = torsoAngles(pose);
+  if (torso) {
+    const tiltDeg = torso.lateralDeg;
+    if (tiltDeg > th.torsoLeanDeg) return { state: "lean_right", tiltDeg, source: "torso" };
+    if (tiltDeg < -th.torsoLeanDeg) return { state: "lean_left", tiltDeg, source: "torso" };
+    return { state: "good", tiltDeg, source: "torso" };
+  }
+
+  // shoulder line tilt, > 0 when the right shoulder drops (independent of mirroring)
+  const width = Math.abs(rs.x - ls.x);
+  const tiltDeg = rad2deg(Math.atan2(rs.y - ls.y, width));
+  // head offset from shoulder-mid, > 0 toward the right shoulder
+  const headShift = width > 0 ? ((nose.x - (ls.x + rs.x) / 2) / width) * Math.sign(rs.x - ls.x) : 0;
 
-  const THRESH = 0.12; // ~7 degrees (demo-friendly)
-  if (tiltRad > THRESH) return { state: "lean_right", tiltRad };
-  if (tiltRad < -THRESH) return { state: "lean_left", tiltRad };
-  return { state: "good", tiltRad };
+  if (tiltDeg > th.torsoLeanDeg && headShift > LEAN_HEAD_SHIFT) return { state: "lean_right", tiltDeg, source: "shoulders" };
+  if (tiltDeg < -th.torsoLeanDeg && headShift < -LEAN_HEAD_SHIFT) return { state: "lean_left", tiltDeg, source: "shoulders" };
+  return { state: "good", tiltDeg, source: "shoulders" };
 }
 
-export function computeSlouch(pose: Landmark[]): { isSlouch: boolean; score: number } {
+export type SlouchResult = {
+  /** Head sunk toward the shoulders (neck shortened vs baseline). */
+  isSlouch: boolean;
+  /** Upper back rounded / torso pitched: forward head, or torso angle when hips are visible. */
+  backNotStraight: boolean;
+  /** 0-1 slouch severity from the neck-length deficit */
+  score: number;
+  /** Visible neck length / baseline; null until a baseline exists */
+  neckRatio: number | null;
+  /** Shoulder-mid to nose height, and the length below which it is a slouch */
+  neckLen: number;
+  minNeckLen: number;
+  forwardHead: boolean;
+  /** Shoulder-mid z minus nose z (> 0: head ahead of the shoulders) */
+  forwardHeadZ: number;
+  torso: { pitchDeg: number; lateralDeg: number } | null;
+};
+
+/**
+ * Slouch/back detector shared by both framings.
+ *
+ * The neck-length and forward-head signals are always evaluated, so slouch
+ * means the same thing with or without hips in frame. Visible hips only add
+ * the torso pitch check for back_not_straight.
+ *
+ * `baselineNeckLen` is the calibrated shoulder-mid-to-nose height (image
+ * units, positive); without it `slouchNeckHardMin` is used as an absolute floor.
+ */
+export function computeSlouch(
+  pose: Landmark[],
+  th: Pick<PostureThresholds, "slouchNeckRatio" | "slouchNeckHardMin" | "forwardHeadZ" | "torsoPitchDeg">,
+  baselineNeckLen: number | null
+): SlouchResult {
   const nose = pose[IDX.NOSE];
   const ls = pose[IDX.LEFT_SHOULDER];
   const rs = pose[IDX.RIGHT_SHOULDER];
-  if (!nose || !ls || !rs) return { isSlouch: false, score: 0 };
+  if (!nose || !ls || !rs) {
+    return {
+      isSlouch: false,
+      backNotStraight: false,
+      score: 0,
+      neckRatio: null,
+      neckLen: 0,
+      minNeckLen: 0,
+      forwardHead: false,
+      forwardHeadZ: 0,
+      torso: null,
+    };
+  }
 
-  const shoulderMidY = (ls.y + rs.y) / 2;
+  const shoulderMid = mid(ls, rs);
 
-  // nose should be noticeably ABOVE shoulders (smaller y).
-  // If it drops closer, interpret as slouch.
-  const headToShoulder = shoulderMidY - nose.y; // bigger is better posture
-  const score = clamp01((0.18 - headToShoulder) / 0.18); // normalize slouch severity
-  const isSlouch = headToShoulder < 0.18;
+  // nose should be noticeably ABOVE shoulders (smaller y); if it drops closer, it's a slouch
+  const neckLen = shoulderMid.y - nose.y;
+  const base = baselineNeckLen != null && baselineNeckLen > 0 ? baselineNeckLen : null;
+  const minLen = base != null ? base * th.slouchNeckRatio : th.slouchNeckHardMin;
+  const neckRatio = base != null ? neckLen / base : null;
+  const isSlouch = neckLen < minLen;
+  const score = clamp01((minLen - neckLen) / minLen);
 
-  return { isSlouch, score };
+  const forwardHeadZ = (shoulderMid.z ?? 0) - (nose.z ?? 0);
+  const forwardHead = forwardHeadZ > th.forwardHeadZ;
+
+  const torso = torsoAngles(pose);
+  const torsoBent = torso != null && Math.abs(torso.pitchDeg) > th.torsoPitchDeg;
+
+  return {
+    isSlouch,
+    backNotStraight: !isSlouch && (forwardHead || torsoBent),
+    score,
+    neckRatio,
+    neckLen,
+    minNeckLen: minLen,
+    forwardHead,
+    forwardHeadZ,
+    torso,
+  };
 }
 
 /**
@@ -60,4 +186,4 @@ export function faceAreaSignal(face: Landmark[]): number {
   const w = Math.max(0, maxX - minX);
   const h = Math.max(0, maxY - minY);
   return w * h; // normalized area in [0..1]ish
-}
\ No newline at end of file
+}
@@ -0,0 +1,119 @@
+import type { PostureThresholds } from "@/types/contracts";
+import type { PostureIssue } from "./stability";
+
+/** 0-1 per issue; only issues that are currently flagged appear. */
+export type IssueSeverity = Partial<Record<PostureIssue, number>>;
+
+/** A "greater than" metric saturates at this multiple of its threshold. */
+const FULL_OVER = 2.5;
+/** A "less than" metric saturates at this fraction of its threshold. */
+const FULL_UNDER = 0.5;
+
+const clamp01 = (n: number) => Math.max(0, Math.min(1, n));
+
+/** 0 at the threshold, 1 at FULL_OVER x threshold. */
+function over(value: number, threshold: number) {
+  if (threshold <= 0) return value > threshold ? 1 : 0;
+  return clamp01((value - threshold) / (threshold * (FULL_OVER - 1)));
+}
+
+/** 0 at the threshold, 1 at FULL_UNDER x threshold. */
+function under(value: number, threshold: number) {
+  if (threshold <= 0) return value < threshold ? 1 : 0;
+  return clamp01((threshold - value) / (threshold * (1 - FULL_UNDER)));
+}
+
+/** Raw per-frame signals the detectors compared against their thresholds. */
+export type SeveritySignals = {
+  rollDeg: number;
+  noseEyeDeltaY: number;
+  /** Face-matrix pitch minus baseline (+ = chin up); null without a tracked face */
+  headPitchRelDeg: number | null;
+  shouldersYDiff: number;
+  shouldersZDiff: number;
+  bodyOffsetX: number;
+  leanDeg: number;
+  /** Visible neck length and the length below which it counts as a slouch */
+  neckLen: number;
+  minNeckLen: number;
+  /** shoulder-mid z minus nose z */
+  forwardHeadZ: number;
+  torsoPitchDeg: number | null;
+  /** faceArea / baseline; null without a face baseline */
+  faceRatio: number | null;
+  /** Iris-based distance and the allowed range; takes precedence over faceRatio */
+  distanceCm: number | null;
+  minCm: number;
+  maxCm: number;
+};
+
+/**
+ * How far each flagged issue's metric is past its threshold, so a 40° head
+ * tilt weighs more than a 13° one in stats, coaching and alerts.
+ */
+export function computeSeverity(
+  issues: PostureIssue[],
+  s: SeveritySignals,
+  th: PostureThresholds
+): IssueSeverity {
+  const out: IssueSeverity = {};
+  for (const issue of issues) {
+    switch (issue) {
+      case "head_tilt_left":
+      case "head_tilt_right":
+        out[issue] = over(Math.abs(s.rollDeg), th.headRollDeg);
+        break;
+      case "head_down":
+        out[issue] =
+          s.headPitchRelDeg != null
+            ? over(-s.headPitchRelDeg, th.headPitchDownDeg)
+            : over(s.noseEyeDeltaY, th.headPitchDown);
+        break;
+      case "head_up":
+        out[issue] =
+          s.headPitchRelDeg != null
+            ? over(s.headPitchRelDeg, th.headPitchUpDeg)
+            : under(s.noseEyeDeltaY, th.headPitchUp);
+        break;
+      case "shoulders_unlevel":
+        out[issue] = over(s.shouldersYDiff, th.shouldersUnevenY);
+        break;
+      case "shoulders_depth_misaligned":
+        out[issue] = over(s.shouldersZDiff, th.shouldersDepthZ);
+        break;
+      case "body_lean_left":
+      case "body_lean_right":
+        out[issue] = over(Math.abs(s.bodyOffsetX), th.bodyLeanX);
+        break;
+      case "lean_left":
+      case "lean_right":
+        out[issue] = over(Math.abs(s.leanDeg), th.torsoLeanDeg);
+        break;
+      case "slouch":
+        out[issue] = under(s.neckLen, s.minNeckLen);
+        break;
+      case "back_not_straight":
+        out[issue] = Math.max(
+          over(s.forwardHeadZ, th.forwardHeadZ),
+          s.torsoPitchDeg != null ? over(Math.abs(s.torsoPitchDeg), th.torsoPitchDeg) : 0
+        );
+        break;
+      case "too_close":
+        if (s.distanceCm != null) {
+          out[issue] = under(s.distanceCm, s.minCm);
+          break;
+        }
+        // area ratio, so measure the excess over 1x rather than from 0
+        out[issue] = s.faceRatio != null ? over(s.faceRatio - 1, th.tooCloseMul - 1) : 0;
+        break;
+      case "too_far":
+        if (s.distanceCm != null) {
+          out[issue] = over(s.distanceCm, s.maxCm);
+          break;
+        }
+        out[issue] = s.faceRatio != null ? under(s.faceRatio, th.tooFarMul) : 0;
+        break;
+    }
+  }
+  return out;
+}
@@ -0,0 +1,82 @@
+import type { PostureState } from "@/types";
+import type { StabilityTiming } from "@/types/contracts";
+
+export type PostureIssue = Exclude<PostureState, "good" | "no_person" | "uncertain">;
+
+/** Priority order: the first active issue becomes the primary state. */
+export const ISSUE_ORDER: PostureIssue[] = [
+  "too_close",
+  "too_far",
+  "head_down",
+  "head_up",
+  "head_tilt_left",
+  "head_tilt_right",
+  "shoulders_unlevel",
+  "shoulders_depth_misaligned",
+  "body_lean_left",
+  "body_lean_right",
+  "back_not_straight",
+  "slouch",
+  "lean_left",
+  "lean_right",
+];
+
+export const isBadState = (s: PostureState) => s !== "good" && s !== "no_person" && s !== "uncertain";
+
+export function pickPrimary(actives: PostureState[]): PostureIssue | "good" {
+  for (const p of ISSUE_ORDER) if (actives.includes(p)) return p;
+  return "good";
+}
+
+/**
+ * Debounces per-frame candidates: an issue turns on after persisting for
+ * persistMs and turns off after being gone for clearMs. Issues in `unknown`
+ * (not checkable this frame) keep their state untouched.
+ */
+export function createIssueStabilizer() {
+  const map = new Map<PostureIssue, { since: number | null; lastSeen: number; active: boolean }>();
+
+  function update(
+    now: number,
+    candidates: PostureIssue[],
+    timing: StabilityTiming,
+    unknown?: ReadonlySet<PostureIssue>
+  ): PostureIssue[] {
+    const cand = new Set<PostureIssue>(candidates);
+
+    for (const issue of ISSUE_ORDER) {
+      if (unknown?.has(issue)) continue;
+      const prev = map.get(issue) ?? { since: null as number | null, lastSeen: 0, active: false };
+
+      if (cand.has(issue)) {
+        if (prev.since == null) prev.since = now;
+        prev.lastSeen = now;
+
+        if (!prev.active && now - prev.since >= timing.persistMs) {
+          prev.active = true;
+        }
+      } else {
+        if (prev.active) {
+          if (now - prev.lastSeen >= timing.clearMs) {
+            prev.active = false;
+            prev.since = null;
+          }
+        } else {
+          prev.since = null;
+        }
+      }
+
+      map.set(issue, prev);
+    }
+
+    return ISSUE_ORDER.filter((i) => map.get(i)?.active);
+  }
+
+  function reset() {
+    map.clear();
+  }
+
+  return { update, reset };
+}
+
+export type IssueStabilizer = ReturnType<typeof createIssueStabilizer>;
@@ -0,0 +1,105 @@
+import type { PostureState } from "@/types";
+import type { MinuteBucket } from "@/types/contracts";
+
+/**
+ * Canonical posture taxonomy.
+ *
+ * The engine emits fine-grained PostureStates; stats, scoring and charts
+ * roll them up into a handful of categories. Every state the engine can
+ * stabilize must appear here, so adding a state means adding one row to
+ * POSTURE_CATEGORY (the Record type enforces it).
+ */
+
+/**
+ * States that can own time in a MinuteBucket ("no_person" is focus/away, not
+ * posture; "uncertain" time goes to MinuteBucket.uncertainSec).
+ */
+export type TrackedPostureState = Exclude<PostureState, "no_person" | "uncertain">;
+
+export type PostureCategory = "good" | "head" | "back" | "shoulders" | "lean" | "distance";
+
+export const POSTURE_CATEGORY: Record<TrackedPostureState, PostureCategory> = {
+  good: "good",
+
+  head_down: "head",
+  head_up: "head",
+  head_tilt_left: "head",
+  head_tilt_right: "head",
+
+  slouch: "back",
+  back_not_straight: "back",
+
+  shoulders_unlevel: "shoulders",
+  shoulders_depth_misaligned: "shoulders",
+
+  lean_left: "lean",
+  lean_right: "lean",
+  body_lean_left: "lean",
+  body_lean_right: "lean",
+
+  too_close: "distance",
+  too_far: "distance",
+};
+
+/** Stable column/iteration order ("good" first). */
+export const POSTURE_STATES = Object.keys(POSTURE_CATEGORY) as TrackedPostureState[];
+
+export const POSTURE_CATEGORIES: PostureCategory[] = ["good", "head", "back", "shoulders", "lean", "distance"];
+
+/** How much a second in each category hurts postureScore (good = 0). */
+export const CATEGORY_WEIGHT: Record<PostureCategory, number> = {
+  good: 0,
+  back: 1.0,
+  head: 0.8,
+  lean: 0.7,
+  distance: 0.6,
+  shoulders: 0.5,
+};
+
+export const CATEGORY_LABEL: Record<PostureCategory, string> = {
+  good: "Good",
+  head: "Head position",
+  back: "Slouch / back",
+  shoulders: "Shoulders",
+  lean: "Leaning",
+  distance: "Screen distance",
+};
+
+/** States written by older builds (the six-state contracts union). */
+const LEGACY_POSTURE_STATE: Record<string, TrackedPostureState> = {
+  shoulder_imbalance: "shoulders_unlevel",
+};
+
+export type PostureSec = MinuteBucket["postureSec"];
+
+export function isTrackedPostureState(s: string): s is TrackedPostureState {
+  return s in POSTURE_CATEGORY;
+}
+
+export function postureLabel(s: PostureState) {
+  return s.replaceAll("_", " ");
+}
+
+export function emptyPostureSec(): Record<TrackedPostureState, number> {
+  const out = {} as Record<TrackedPostureState, number>;
+  for (const s of POSTURE_STATES) out[s] = 0;
+  return out;
+}
+
+/** Map legacy keys onto the canonical taxonomy and drop anything unknown. */
+export function normalizePostureSec(raw: Record<string, number | undefined>): PostureSec {
+  const out: PostureSec = {};
+  for (const [k, v] of Object.entries(raw)) {
+    if (!v) continue;
+    const s = isTrackedPostureState(k) ? k : LEGACY_POSTURE_STATE[k];
+    if (!s) continue;
+    out[s] = (out[s] ?? 0) + v;
+  }
+  return out;
+}
+
+export function categorySec(postureSec: PostureSec): Record<PostureCategory, number> {
+  const out = { good: 0, head: 0, back: 0, shoulders: 0, lean: 0, distance: 0 };
+  for (const s of POSTURE_STATES) out[POSTURE_CATEGORY[s]] += postureSec[s] ?? 0;
+  return out;
+}
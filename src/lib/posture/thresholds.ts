@@ -0,0 +1,89 @@
+import type { PostureState } from "@/types";
+import type { PostureThresholds, Sensitivity, StabilityTiming, UserSettings } from "@/types/contracts";
+
+export type DetectionProfile = {
+  thresholds: PostureThresholds;
+  stable: StabilityTiming;
+  disabled: Set<PostureState>;
+};
+
+/**
+ * Named threshold profiles. "medium" is the original tuning; "high" fires on
+ * smaller deviations and sooner, "low" needs a clearer, longer deviation.
+ */
+export const SENSITIVITY_PROFILES: Record<Sensitivity, { thresholds: PostureThresholds; stable: StabilityTiming }> = {
+  low: {
+    thresholds: {
+      headRollDeg: 16,
+      headPitchDown: 0.08,
+      headPitchUp: 0.022,
+      headPitchDownDeg: 20,
+      headPitchUpDeg: 16,
+      shouldersUnevenY: 0.045,
+      shouldersDepthZ: 0.2,
+      forwardHeadZ: 0.24,
+      bodyLeanX: 0.07,
+      slouchNeckRatio: 0.68,
+      slouchNeckHardMin: 0.1,
+      torsoPitchDeg: 22,
+      torsoLeanDeg: 12,
+      tooCloseMul: 1.5,
+      tooFarMul: 0.65,
+    },
+    stable: { persistMs: 900, clearMs: 500 },
+  },
+  medium: {
+    thresholds: {
+      headRollDeg: 12,
+      headPitchDown: 0.06,
+      headPitchUp: 0.03,
+      headPitchDownDeg: 15,
+      headPitchUpDeg: 12,
+      shouldersUnevenY: 0.03,
+      shouldersDepthZ: 0.14,
+      forwardHeadZ: 0.18,
+      bodyLeanX: 0.05,
+      slouchNeckRatio: 0.75,
+      slouchNeckHardMin: 0.12,
+      torsoPitchDeg: 16,
+      torsoLeanDeg: 9,
+      tooCloseMul: 1.35,
+      tooFarMul: 0.75,
+    },
+    stable: { persistMs: 450, clearMs: 650 },
+  },
+  high: {
+    thresholds: {
+      headRollDeg: 9,
+      headPitchDown: 0.045,
+      headPitchUp: 0.036,
+      headPitchDownDeg: 11,
+      headPitchUpDeg: 9,
+      shouldersUnevenY: 0.022,
+      shouldersDepthZ: 0.1,
+      forwardHeadZ: 0.14,
+      bodyLeanX: 0.035,
+      slouchNeckRatio: 0.82,
+      slouchNeckHardMin: 0.14,
+      torsoPitchDeg: 12,
+      torsoLeanDeg: 7,
+      tooCloseMul: 1.25,
+      tooFarMul: 0.8,
+    },
+    stable: { persistMs: 300, clearMs: 800 },
+  },
+};
+
+/** Sensitivity profile + user overrides -> what the engine actually uses. */
+export function resolveDetectionProfile(
+  settings: Pick<UserSettings, "sensitivity" | "postureOverrides"> | undefined
+): DetectionProfile {
+  const base = SENSITIVITY_PROFILES[settings?.sensitivity ?? "medium"] ?? SENSITIVITY_PROFILES.medium;
+  const o = settings?.postureOverrides;
+
+  return {
+    thresholds: { ...base.thresholds, ...o?.thresholds },
+    stable: { ...base.stable, ...o?.stable },
+    disabled: new Set(o?.disabled ?? []),
+  };
+}
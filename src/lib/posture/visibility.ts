@@ -0,0 +1,74 @@
+import type { PostureState } from "@/types";
+import { ISSUE_ORDER, type PostureIssue } from "./stability";
+
+type Landmark = { x: number; y: number; z?: number; visibility?: number };
+
+/**
+ * Per-issue visibility gating.
+ *
+ * Each check only needs a few pose landmarks, so a hand on the chin or a mug
+ * in front of one shoulder disables the checks that read those points and
+ * leaves the rest running. A check that can't run is "unknown" for the frame:
+ * it neither fires nor clears.
+ */
+
+/** Pose landmarks below this visibility don't count as seen. */
+export const MIN_LANDMARK_VISIBILITY = 0.5;
+
+const NOSE = 0;
+const LEFT_EYE = 2;
+const RIGHT_EYE = 5;
+const LEFT_EAR = 7;
+const RIGHT_EAR = 8;
+const LEFT_SHOULDER = 11;
+const RIGHT_SHOULDER = 12;
+
+/** Pose landmarks each check reads (distance is face-derived, see `faceLost`). */
+export const ISSUE_LANDMARKS: Record<PostureIssue, number[]> = {
+  too_close: [],
+  too_far: [],
+  head_down: [NOSE, LEFT_EYE, RIGHT_EYE],
+  head_up: [NOSE, LEFT_EYE, RIGHT_EYE],
+  head_tilt_left: [LEFT_EAR, RIGHT_EAR],
+  head_tilt_right: [LEFT_EAR, RIGHT_EAR],
+  shoulders_unlevel: [LEFT_SHOULDER, RIGHT_SHOULDER],
+  shoulders_depth_misaligned: [LEFT_SHOULDER, RIGHT_SHOULDER],
+  body_lean_left: [LEFT_SHOULDER, RIGHT_SHOULDER],
+  body_lean_right: [LEFT_SHOULDER, RIGHT_SHOULDER],
+  back_not_straight: [NOSE, LEFT_SHOULDER, RIGHT_SHOULDER],
+  slouch: [NOSE, LEFT_SHOULDER, RIGHT_SHOULDER],
+  lean_left: [NOSE, LEFT_SHOULDER, RIGHT_SHOULDER],
+  lean_right: [NOSE, LEFT_SHOULDER, RIGHT_SHOULDER],
+};
+
+/** Landmarks without a visibility score (some fixtures) count as seen. */
+export function isVisible(p: Landmark | undefined) {
+  return p != null && (p.visibility ?? 1) >= MIN_LANDMARK_VISIBILITY;
+}
+
+export type VisibilityContext = {
+  /** Head pose comes from the face matrix, so head checks don't need pose points */
+  faceHead: boolean;
+  /** Face tracking is running but lost the face (occluded): distance can't be checked */
+  faceLost: boolean;
+  disabled: ReadonlySet<PostureState>;
+};
+
+/** Enabled issues that can't be checked on this frame. */
+export function uncheckableIssues(pose: Landmark[], ctx: VisibilityContext): PostureIssue[] {
+  return ISSUE_ORDER.filter((issue) => {
+    if (ctx.disabled.has(issue)) return false;
+    switch (issue) {
+      case "too_close":
+      case "too_far":
+        return ctx.faceLost;
+      case "head_down":
+      case "head_up":
+      case "head_tilt_left":
+      case "head_tilt_right":
+        if (ctx.faceHead) return false;
+        break;
+    }
+    return !ISSUE_LANDMARKS[issue].every((i) => isVisible(pose[i]));
+  });
+}
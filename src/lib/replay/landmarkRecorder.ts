@@ -0,0 +1,139 @@
+import type { LandmarkRecording, RecordedFrame } from "@/types/contracts";
+import type { FrameResult, Landmark } from "@/lib/vision/protocol";
+import { putRecording, putRecordingChunk, uid } from "@/lib/storage/repo";
+
+/** Frames per IndexedDB row (~5s at 30 fps). */
+const CHUNK_FRAMES = 150;
+
+// 1e-4 of the frame is well below landmark jitter and keeps exports small
+const r4 = (n: number) => Math.round(n * 10_000) / 10_000;
+
+function compactLandmarks(lms: Landmark[]): Landmark[] {
+  return lms.map((p) => {
+    const out: Landmark = { x: r4(p.x), y: r4(p.y) };
+    if (p.z != null) out.z = r4(p.z);
+    if (p.visibility != null) out.visibility = r4(p.visibility);
+    return out;
+  });
+}
+
+/** Strip timing-only fields and round coordinates. */
+export function toRecordedFrame(f: FrameResult): RecordedFrame {
+  return {
+    ts: f.ts,
+    pose: f.pose ? compactLandmarks(f.pose) : null,
+    face: f.face
+      ? {
+          landmarks: compactLandmarks(f.face.landmarks),
+          blendshapes: f.face.blendshapes?.map((c) => ({ categoryName: c.categoryName, score: r4(c.score) })) ?? null,
+          matrix: f.face.matrix,
+        }
+      : null,
+    faceRan: f.faceRan,
+  };
+}
+
+/**
+ * Streams inference results (never video) into IndexedDB while a session
+ * runs. Frames are written in chunks so long sessions don't sit in memory.
+ */
+export function createLandmarkRecorder() {
+  let meta: LandmarkRecording | null = null;
+  let buffer: RecordedFrame[] = [];
+  let seq = 0;
+  let firstTs: number | null = null;
+  let writes: Promise<void> = Promise.resolve();
+
+  function flush() {
+    if (!meta || !buffer.length) return;
+    const chunk = { id: uid(), recordingId: meta.id, seq: seq++, frames: buffer };
+    buffer = [];
+    writes = writes
+      .then(() => putRecordingChunk(chunk))
+      .catch((err) => console.warn("[landmarks] putRecordingChunk failed", err));
+  }
+
+  function start(opts: { width: number; height: number; sessionId?: string }) {
+    const createdAt = Date.now();
+    meta = {
+      id: uid(),
+      label: new Date(createdAt).toLocaleString(),
+      createdAt,
+      durationMs: 0,
+      frameCount: 0,
+      width: opts.width,
+      height: opts.height,
+      sessionId: opts.sessionId,
+    };
+    buffer = [];
+    seq = 0;
+    firstTs = null;
+  }
+
+  function add(frame: FrameResult) {
+    if (!meta) return;
+    firstTs ??= frame.ts;
+    buffer.push(toRecordedFrame(frame));
+    meta.frameCount += 1;
+    meta.durationMs = frame.ts - firstTs;
+    if (buffer.length >= CHUNK_FRAMES) flush();
+  }
+
+  /** Writes the remaining frames; resolves with the saved recording (null if empty). */
+  async function stop(): Promise<LandmarkRecording | null> {
+    const m = meta;
+    if (!m) return null;
+    flush();
+    meta = null;
+    await writes;
+    if (!m.frameCount) return null;
+    await putRecording(m);
+    return m;
+  }
+
+  return {
+    start,
+    add,
+    stop,
+    get active() {
+      return meta != null;
+    },
+  };
+}
+
+export type LandmarkRecorder = ReturnType<typeof createLandmarkRecorder>;
+
+/** Exported file: one JSON document per recording. */
+export type RecordingFile = {
+  format: "posture-sense-landmarks";
+  version: 1;
+  recording: LandmarkRecording;
+  frames: RecordedFrame[];
+};
+
+export function toRecordingFile(recording: LandmarkRecording, frames: RecordedFrame[]): RecordingFile {
+  return { format: "posture-sense-landmarks", version: 1, recording, frames };
+}
+
+export function parseRecordingFile(text: string): RecordingFile {
+  const data = JSON.parse(text) as Partial<RecordingFile>;
+  if (data?.format !== "posture-sense-landmarks" || data.version !== 1 || !data.recording || !Array.isArray(data.frames)) {
+    throw new Error("Not a landmark recording file");
+  }
+  return data as RecordingFile;
+}
+
+/** Stores an imported file as a new recording (fresh id, so re-imports don't clash). */
+export async function importRecordingFile(file: RecordingFile): Promise<LandmarkRecording> {
+  const recording: LandmarkRecording = { ...file.recording, id: uid(), label: `${file.recording.label} (imported)` };
+  for (let i = 0; i * CHUNK_FRAMES < file.frames.length; i++) {
+    await putRecordingChunk({
+      id: uid(),
+      recordingId: recording.id,
+      seq: i,
+      frames: file.frames.slice(i * CHUNK_FRAMES, (i + 1) * CHUNK_FRAMES),
+    });
+  }
+  await putRecording(recording);
+  return recording;
+}
@@ -0,0 +1,75 @@
+import type { RecordedFrame } from "@/types/contracts";
+
+export const REPLAY_SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+/**
+ * Clock-driven cursor over a recording. The caller feeds it wall time
+ * (e.g. from requestAnimationFrame) and gets back the frames that became due.
+ * Positions are ms from the first frame; frames keep their original ts.
+ */
+export function createReplayPlayer(frames: RecordedFrame[]) {
+  const t0 = frames[0]?.ts ?? 0;
+  const durationMs = frames.length ? frames[frames.length - 1].ts - t0 : 0;
+
+  let positionMs = 0;
+  let index = 0;
+  let speed = 1;
+  let playing = false;
+  let lastWall: number | null = null;
+
+  /** Frames whose time is <= the new position. */
+  function advance(wallNow: number): RecordedFrame[] {
+    if (!playing) {
+      lastWall = null;
+      return [];
+    }
+    if (lastWall != null) positionMs = Math.min(durationMs, positionMs + (wallNow - lastWall) * speed);
+    lastWall = wallNow;
+
+    const due: RecordedFrame[] = [];
+    while (index < frames.length && frames[index].ts - t0 <= positionMs) due.push(frames[index++]);
+    if (index >= frames.length) playing = false;
+    return due;
+  }
+
+  /** Moves the cursor; the next advance() continues from the first frame at/after `ms`. */
+  function seek(ms: number) {
+    positionMs = Math.max(0, Math.min(durationMs, ms));
+    index = frames.findIndex((f) => f.ts - t0 >= positionMs);
+    if (index < 0) index = frames.length;
+    lastWall = null;
+  }
+
+  function play() {
+    if (index >= frames.length) seek(0);
+    playing = true;
+  }
+
+  function pause() {
+    playing = false;
+  }
+
+  function setSpeed(x: number) {
+    speed = x;
+  }
+
+  return {
+    advance,
+    seek,
+    play,
+    pause,
+    setSpeed,
+    durationMs,
+    get positionMs() {
+      return positionMs;
+    },
+    get playing() {
+      return playing;
+    },
+    get speed() {
+      return speed;
+    },
+  };
+}
+
+export type ReplayPlayer = ReturnType<typeof createReplayPlayer>;
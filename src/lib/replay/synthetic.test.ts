@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import { demoScript, generateSyntheticFrames, type SyntheticSegment } from "./synthetic";
+import { createFrameAnalyzer } from "@/lib/analysis/analyzer";
+import { SENSITIVITY_PROFILES } from "@/lib/posture/thresholds";
+import type { RecordedFrame } from "@/types/contracts";
+
+const FPS = 30;
+const FRAME_MS = 1000 / FPS;
+const { persistMs, clearMs } = SENSITIVITY_PROFILES.medium.stable;
+
+// baseline, 4 s of head tilt from 3 s, good again from 7 s
+const TILT_FROM = 3_000;
+const TILT_TO = 7_000;
+const SCRIPT: SyntheticSegment[] = [
+  { state: "good", durationMs: TILT_FROM },
+  { state: "head_tilt_left", durationMs: TILT_TO - TILT_FROM },
+  { state: "good", durationMs: 3_000 },
+];
+
+function stream(overrides: Parameters<typeof generateSyntheticFrames>[1] = {}) {
+  return generateSyntheticFrames(SCRIPT, { fps: FPS, transitionMs: 0, seed: 3, ...overrides });
+}
+
+/** ts of every frame where head_tilt_left is active. */
+function activeTimes(frames: RecordedFrame[]) {
+  const analyzer = createFrameAnalyzer({ clock: () => 0 });
+  return frames.map((f) => analyzer.analyze(f)).filter((a) => a.actives.includes("head_tilt_left")).map((a) => a.ts);
+}
+
+describe("generateSyntheticFrames", () => {
+  it("is deterministic for a seed", () => {
+    expect(stream()).toEqual(stream());
+    expect(stream({ seed: 4 })).not.toEqual(stream());
+  });
+
+  it("emits frames at the requested rate for the whole script", () => {
+    const frames = stream();
+    // no frame gained or lost at segment boundaries
+    expect(frames).toHaveLength(Math.round(10_000 / FRAME_MS));
+    expect(frames.at(-1)!.ts).toBeLessThan(10_000);
+    expect(frames[1].ts - frames[0].ts).toBeCloseTo(FRAME_MS);
+  });
+
+  it("raises an issue persistMs after it appears", () => {
+    const active = activeTimes(stream());
+    expect(active.length).toBeGreaterThan(0);
+    const onset = active[0] - TILT_FROM;
+    expect(onset).toBeGreaterThanOrEqual(persistMs);
+    expect(onset).toBeLessThan(persistMs + 2 * FRAME_MS);
+  });
+
+  it("clears an issue clearMs after it goes away", () => {
+    const active = activeTimes(stream());
+    const recovery = active.at(-1)! + FRAME_MS - TILT_TO;
+    expect(recovery).toBeGreaterThanOrEqual(clearMs - FRAME_MS);
+    expect(recovery).toBeLessThan(clearMs + 2 * FRAME_MS);
+    // and it stays cleared
+    expect(active.every((ts) => ts < TILT_TO + clearMs + 2 * FRAME_MS)).toBe(true);
+  });
+
+  it("ignores a brief issue shorter than persistMs", () => {
+    const blip = generateSyntheticFrames(
+      [
+        { state: "good", durationMs: TILT_FROM },
+        { state: "head_tilt_left", durationMs: persistMs / 2 },
+        { state: "good", durationMs: 2_000 },
+      ],
+      { fps: FPS, transitionMs: 0, seed: 3 }
+    );
+    expect(activeTimes(blip)).toEqual([]);
+  });
+
+  it("keeps an active issue through a short tracking dropout", () => {
+    const dropFrom = 5_000;
+    const dropTo = dropFrom + 300;
+    const frames = stream().map((f) =>
+      f.ts >= dropFrom && f.ts < dropTo ? { ...f, pose: null, face: null } : f
+    );
+    const analyzer = createFrameAnalyzer({ clock: () => 0 });
+    const out = frames.map((f) => analyzer.analyze(f));
+
+    const during = out.filter((a) => a.ts >= dropFrom && a.ts < dropTo);
+    expect(during.every((a) => a.primary === "no_person")).toBe(true);
+    // tracking is back with the tilt still held: active again on the first frame, no new persistMs wait
+    const after = out.find((a) => a.ts >= dropTo)!;
+    expect(after.actives).toContain("head_tilt_left");
+  });
+
+  it("drops tracking for dropoutMs when dropouts are enabled", () => {
+    const frames = stream({ dropoutRate: 0.01, dropoutMs: 300 });
+    const runs: number[] = [];
+    let run = 0;
+    for (const f of frames) {
+      if (f.pose == null) run++;
+      else if (run) {
+        runs.push(run);
+        run = 0;
+      }
+    }
+    expect(runs.length).toBeGreaterThan(0);
+    for (const n of runs) expect(Math.abs(n * FRAME_MS - 300)).toBeLessThanOrEqual(FRAME_MS + 1);
+  });
+});
+
+describe("demoScript", () => {
+  it("plays every non-good state once", () => {
+    const states = demoScript()
+      .map((s) => s.state)
+      .filter((s) => s !== "good");
+    expect(new Set(states).size).toBe(states.length);
+    expect(states).toContain("uncertain");
+    expect(states).toContain("no_person");
+  });
+});
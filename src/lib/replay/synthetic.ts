@@ -0,0 +1,315 @@
+import type { PostureState } from "@/types";
+import type { RecordedFrame } from "@/types/contracts";
+import type { Landmark } from "@/lib/vision/protocol";
+import { POSTURE_STATES } from "@/lib/posture/taxonomy";
+
+/**
+ * Synthetic MediaPipe-shaped landmark streams.
+ *
+ * Frames are authored in display space (subject's left on the screen's left)
+ * around a neutral seated pose, deformed per PostureState, then flipped to
+ * raw camera space when `mirror` is on — exactly what the worker would
+ * return. The output is RecordedFrame[], so it plays through the replay path
+ * (demo mode) or straight into createFrameAnalyzer (tests).
+ */
+
+export type SyntheticSegment = {
+  state: PostureState;
+  durationMs: number;
+};
+
+export type SyntheticOptions = {
+  fps?: number;
+  /** Std-dev of per-landmark jitter, in normalized image units */
+  noise?: number;
+  /** Blend time from the previous segment's posture */
+  transitionMs?: number;
+  /** Per-frame chance that tracking drops out (pose + face missing) */
+  dropoutRate?: number;
+  dropoutMs?: number;
+  /** Emit face landmarks/matrix/blendshapes (distance, focus, blinks) */
+  face?: boolean;
+  /** Keep hips visible (torso path) instead of an upper-body crop */
+  hips?: boolean;
+  blinkEveryMs?: number;
+  /** Landmarks in raw (unmirrored) camera space, as the engine expects with mirror on */
+  mirror?: boolean;
+  seed?: number;
+  startTs?: number;
+};
+
+const DEFAULTS: Required<SyntheticOptions> = {
+  fps: 30,
+  noise: 0.002,
+  transitionMs: 600,
+  dropoutRate: 0,
+  dropoutMs: 300,
+  face: true,
+  hips: false,
+  blinkEveryMs: 4_000,
+  mirror: true,
+  seed: 1,
+  startTs: 0,
+};
+
+const BLINK_MS = 150;
+const FACE_POINTS = 36;
+
+/** Small deterministic PRNG (mulberry32) so streams are reproducible. */
+function createRng(seed: number) {
+  let a = seed >>> 0;
+  const next = () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const gauss = () => {
+    const u = Math.max(1e-9, next());
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * next());
+  };
+  return { next, gauss };
+}
+
+type Body = {
+  pose: Landmark[];
+  /** Face box center/size in display space */
+  face: { cx: number; cy: number; w: number; h: number };
+  head: { yawDeg: number; pitchDeg: number; rollDeg: number };
+};
+
+/** Neutral upright pose, display space. */
+function neutralBody(hips: boolean): Body {
+  const pose: Landmark[] = Array.from({ length: 33 }, () => ({ x: 0.5, y: 0.9, z: 0, visibility: 0.1 }));
+  const set = (i: number, x: number, y: number, z = 0, visibility = 0.99) => (pose[i] = { x, y, z, visibility });
+
+  set(0, 0.5, 0.32, -0.12); // nose
+  set(1, 0.485, 0.285, -0.1);
+  set(2, 0.48, 0.28, -0.1); // left eye (screen left)
+  set(3, 0.475, 0.285, -0.1);
+  set(4, 0.515, 0.285, -0.1);
+  set(5, 0.52, 0.28, -0.1); // right eye
+  set(6, 0.525, 0.285, -0.1);
+  set(7, 0.455, 0.3, -0.05); // left ear
+  set(8, 0.545, 0.3, -0.05); // right ear
+  set(9, 0.49, 0.36, -0.1);
+  set(10, 0.51, 0.36, -0.1);
+  set(11, 0.4, 0.55, -0.05); // left shoulder
+  set(12, 0.6, 0.55, -0.05); // right shoulder
+  set(13, 0.36, 0.75, -0.02, 0.6);
+  set(14, 0.64, 0.75, -0.02, 0.6);
+  if (hips) {
+    set(23, 0.44, 0.92, 0, 0.9);
+    set(24, 0.56, 0.92, 0, 0.9);
+  } else {
+    set(23, 0.44, 1.15, 0, 0.05);
+    set(24, 0.56, 1.15, 0, 0.05);
+  }
+
+  return { pose, face: { cx: 0.5, cy: 0.3, w: 0.16, h: 0.2 }, head: { yawDeg: 0, pitchDeg: 0, rollDeg: 0 } };
+}
+
+const HEAD = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+
+function rotateAround(p: Landmark, c: { x: number; y: number }, deg: number) {
+  const r = (deg * Math.PI) / 180;
+  const dx = p.x - c.x;
+  const dy = p.y - c.y;
+  p.x = c.x + dx * Math.cos(r) - dy * Math.sin(r);
+  p.y = c.y + dx * Math.sin(r) + dy * Math.cos(r);
+}
+
+/** Deform a neutral body toward `state`; k in [0, 1] is how far along. */
+function applyState(b: Body, state: PostureState, k: number) {
+  const p = b.pose;
+  const moveHead = (dx: number, dy: number, dz = 0) =>
+    HEAD.forEach((i) => {
+      p[i].x += dx;
+      p[i].y += dy;
+      p[i].z = (p[i].z ?? 0) + dz;
+    });
+
+  switch (state) {
+    case "head_tilt_left":
+    case "head_tilt_right": {
+      const deg = (state === "head_tilt_right" ? 20 : -20) * k;
+      HEAD.forEach((i) => rotateAround(p[i], p[0], deg));
+      b.head.rollDeg = deg;
+      break;
+    }
+    case "head_down":
+      p[0].y += 0.045 * k;
+      [9, 10].forEach((i) => (p[i].y += 0.045 * k));
+      b.head.pitchDeg = -20 * k;
+      b.face.cy += 0.02 * k;
+      break;
+    case "head_up":
+      p[0].y -= 0.025 * k;
+      b.head.pitchDeg = 15 * k;
+      break;
+    case "shoulders_unlevel":
+      p[12].y += 0.045 * k;
+      p[14].y += 0.045 * k;
+      break;
+    case "shoulders_depth_misaligned":
+      p[11].z = (p[11].z ?? 0) - 0.12 * k;
+      p[12].z = (p[12].z ?? 0) + 0.12 * k;
+      break;
+    case "body_lean_left":
+    case "body_lean_right": {
+      const dx = (state === "body_lean_right" ? 0.09 : -0.09) * k;
+      p.forEach((q) => (q.x += dx));
+      b.face.cx += dx;
+      break;
+    }
+    case "lean_left":
+    case "lean_right": {
+      const s = state === "lean_right" ? 1 : -1;
+      // trunk rotates about the hips: low shoulder on the lean side, head carried along
+      p[s > 0 ? 12 : 11].y += 0.06 * k;
+      moveHead(0.05 * s * k, 0.02 * k);
+      b.face.cx += 0.05 * s * k;
+      if (p[23].visibility! > 0.5) {
+        [0, ...HEAD, 11, 12, 13, 14].forEach((i) => (p[i].x += 0.08 * s * k));
+      }
+      break;
+    }
+    case "slouch":
+      moveHead(0, 0.1 * k);
+      b.face.cy += 0.1 * k;
+      break;
+    case "back_not_straight":
+      moveHead(0, 0.02 * k, -0.25 * k);
+      if (p[23].visibility! > 0.5) {
+        [11, 12].forEach((i) => (p[i].z = (p[i].z ?? 0) - 0.2 * k));
+      }
+      break;
+    case "too_close":
+    case "too_far": {
+      const s = 1 + (state === "too_close" ? 0.3 : -0.22) * k;
+      b.face.w *= s;
+      b.face.h *= s;
+      break;
+    }
+    case "uncertain":
+      // an arm across the chest: shoulders drop out, the head stays tracked
+      if (k > 0.5) [11, 12, 13, 14].forEach((i) => (p[i].visibility = 0.1));
+      break;
+    case "good":
+    case "no_person":
+      break;
+  }
+}
+
+function faceLandmarks(f: Body["face"]): Landmark[] {
+  return Array.from({ length: FACE_POINTS }, (_, i) => {
+    const a = (i / FACE_POINTS) * Math.PI * 2;
+    return { x: f.cx + (Math.cos(a) * f.w) / 2, y: f.cy + (Math.sin(a) * f.h) / 2, z: 0 };
+  });
+}
+
+/**
+ * 4x4 column-major facial transformation matrix, the inverse of
+ * headPoseFromMatrix. `h` is in display space, so yaw/roll flip when mirrored.
+ */
+function headMatrix(h: Body["head"], mirror: boolean): number[] {
+  const rad = (d: number) => (d * Math.PI) / 180;
+  const flip = mirror ? -1 : 1;
+  // headPoseFromMatrix negates pitch and roll
+  const pitch = -h.pitchDeg;
+  const yaw = flip * h.yawDeg;
+  const roll = -flip * h.rollDeg;
+  const [cx, sx] = [Math.cos(rad(pitch)), Math.sin(rad(pitch))];
+  const [cy, sy] = [Math.cos(rad(yaw)), Math.sin(rad(yaw))];
+  const [cz, sz] = [Math.cos(rad(roll)), Math.sin(rad(roll))];
+  // rows of R
+  const r = [
+    [cz * cy, cz * sy * sx - sz * cx, cz * sy * cx + sz * sx],
+    [sz * cy, sz * sy * sx + cz * cx, sz * sy * cx - cz * sx],
+    [-sy, cy * sx, cy * cx],
+  ];
+  const m = new Array(16).fill(0);
+  for (let col = 0; col < 3; col++) for (let row = 0; row < 3; row++) m[col * 4 + row] = r[row][col];
+  m[15] = 1;
+  return m;
+}
+
+/** Generate a landmark stream that walks through `segments` in order. */
+export function generateSyntheticFrames(segments: SyntheticSegment[], options: SyntheticOptions = {}): RecordedFrame[] {
+  const o = { ...DEFAULTS, ...options };
+  const rng = createRng(o.seed);
+  const dt = 1000 / o.fps;
+  const frames: RecordedFrame[] = [];
+
+  // frame n is at n * dt: summing dt would drift and add a frame at segment ends
+  let n = 0;
+  let segStart = 0;
+  let prev: PostureState = "good";
+  let dropoutUntil = -1;
+  let nextBlinkAt = o.blinkEveryMs;
+
+  for (const seg of segments) {
+    const segEnd = segStart + seg.durationMs;
+    for (let t = n * dt; t < segEnd - 1e-6; t = ++n * dt) {
+      const ts = o.startTs + t;
+
+      if (dropoutUntil < t && o.dropoutRate > 0 && rng.next() < o.dropoutRate) dropoutUntil = t + o.dropoutMs;
+      if (seg.state === "no_person" || t < dropoutUntil) {
+        frames.push({ ts, pose: null, face: null, faceRan: o.face });
+        continue;
+      }
+
+      const k = o.transitionMs > 0 ? Math.min(1, (t - segStart) / o.transitionMs) : 1;
+      const body = neutralBody(o.hips);
+      // cross-fade: previous posture fades out while the new one fades in
+      if (prev !== seg.state && prev !== "no_person") applyState(body, prev, 1 - k);
+      applyState(body, seg.state, prev === seg.state ? 1 : k);
+
+      const jitter = (p: Landmark): Landmark => ({
+        x: p.x + rng.gauss() * o.noise,
+        y: p.y + rng.gauss() * o.noise,
+        z: (p.z ?? 0) + rng.gauss() * o.noise,
+        visibility: p.visibility,
+      });
+      const flip = (p: Landmark): Landmark => (o.mirror ? { ...p, x: 1 - p.x } : p);
+
+      let face: RecordedFrame["face"] = null;
+      if (o.face) {
+        if (t >= nextBlinkAt + BLINK_MS) nextBlinkAt += o.blinkEveryMs;
+        const blink = t >= nextBlinkAt && t < nextBlinkAt + BLINK_MS ? 0.9 : 0.05;
+        face = {
+          landmarks: faceLandmarks(body.face).map(jitter).map(flip),
+          blendshapes: [
+            { categoryName: "eyeBlinkLeft", score: blink },
+            { categoryName: "eyeBlinkRight", score: blink },
+          ],
+          matrix: headMatrix(body.head, o.mirror),
+        };
+      }
+
+      frames.push({ ts, pose: body.pose.map(jitter).map(flip), face, faceRan: o.face });
+    }
+    prev = seg.state;
+    segStart = segEnd;
+  }
+
+  return frames;
+}
+
+/** Demo walk-through: settle on a good baseline, then every issue with good posture in between. */
+export function demoScript(issueMs = 6_000, goodMs = 3_000): SyntheticSegment[] {
+  const segments: SyntheticSegment[] = [{ state: "good", durationMs: 4_000 }];
+  // POSTURE_STATES is tracked states only: uncertain/no_person are appended once below
+  for (const state of POSTURE_STATES) {
+    if (state === "good") continue;
+    segments.push({ state, durationMs: issueMs }, { state: "good", durationMs: goodMs });
+  }
+  segments.push(
+    { state: "uncertain", durationMs: 3_000 },
+    { state: "good", durationMs: goodMs },
+    { state: "no_person", durationMs: 3_000 },
+    { state: "good", durationMs: goodMs }
+  );
+  return segments;
+}
@@ -0,0 +1,312 @@
+import type { MonitoringEvent, PostureState } from "@/types";
+import type { EventType, FocusState, MinuteBucket } from "@/types/contracts";
+import { endSession, logEvent, putMinuteBucket, startSession, toMinuteTs, uid } from "@/lib/storage/repo";
+import { getSettings } from "@/lib/settings/store";
+import type { TrackedPostureState } from "@/lib/posture/taxonomy";
+
+/**
+ * Gaps longer than this (tab throttled, paused, stalled camera) are not credited to any state.
+ * A slower frame rate raises the limit through setMaxGap.
+ */
+const MAX_TICK_GAP_MS = 2_000;
+
+/** How often the in-progress minute is upserted so Dashboard/Stats see live data. */
+const LIVE_FLUSH_MS = 10_000;
+
+/** One row per session and minute, so re-writing a minute upserts it. */
+export function minuteBucketId(sessionId: string, minuteTs: number) {
+  return `${sessionId}:${toMinuteTs(minuteTs)}`;
+}
+
+export function emptyMinuteBucket(sessionId: string, minuteTs: number): MinuteBucket {
+  return {
+    id: minuteBucketId(sessionId, minuteTs),
+    sessionId,
+    minuteTs: toMinuteTs(minuteTs),
+    postureSec: {},
+    severitySec: {},
+    uncertainSec: 0,
+    focusSec: { screenFacing: 0, lookingAway: 0, away: 0 },
+    blinkCount: 0,
+    fatigueAvg: 0,
+    fatigueSec: 0,
+    alertCount: 0,
+    reminderCount: { break: 0, water: 0, stretch: 0 },
+  };
+}
+
+function roundBucket(b: MinuteBucket): MinuteBucket {
+  const r = (n: number) => Math.round(n * 100) / 100;
+  const postureSec = { ...b.postureSec };
+  for (const k of Object.keys(postureSec) as TrackedPostureState[]) postureSec[k] = r(postureSec[k] ?? 0);
+  const severitySec = { ...b.severitySec };
+  for (const k of Object.keys(severitySec) as TrackedPostureState[]) severitySec[k] = r(severitySec[k] ?? 0);
+  return {
+    ...b,
+    postureSec,
+    severitySec,
+    uncertainSec: r(b.uncertainSec ?? 0),
+    fatigueAvg: Math.round(b.fatigueAvg),
+    fatigueSec: r(b.fatigueSec ?? 0),
+    focusSec: {
+      screenFacing: r(b.focusSec.screenFacing),
+      lookingAway: r(b.focusSec.lookingAway),
+      away: r(b.focusSec.away),
+    },
+  };
+}
+
+/** What the engine reports on every processed frame. */
+export type RecorderFrame = {
+  primary: PostureState;
+  actives: PostureState[];
+  focus: FocusState | null;
+  /** 0-100, null while unknown (no face / not enough eye data yet) */
+  fatigue: number | null;
+  /** 0-1 per active issue (PostureMetrics.severity) */
+  severity?: Partial<Record<PostureState, number>>;
+};
+
+/** Engine events worth keeping in db.events (person_lost is too chatty). */
+const PERSISTED_EVENTS = new Set<MonitoringEvent["type"]>([
+  "posture_alert",
+  "coach_reminder",
+  "distraction_alert",
+  "camera_lost",
+  "camera_restored",
+  "monitoring_paused",
+  "monitoring_resumed",
+]);
+
+const FOCUS_KEY: Record<FocusState, keyof MinuteBucket["focusSec"]> = {
+  screen_facing: "screenFacing",
+  looking_away: "lookingAway",
+  away: "away",
+};
+
+export type SessionRecorder = {
+  /** Opens a session row (settings snapshot + session_start event). */
+  begin: () => Promise<void>;
+  /**
+   * Feed the engine's stabilized output. Time since the previous tick is
+   * credited to the previous tick's states (sample-and-hold), split across
+   * minute boundaries and shared evenly between concurrently active states.
+   */
+  tick: (ts: number, frame: RecorderFrame) => void;
+  /** Stop crediting time until the next tick (pause, stalled frames). */
+  hold: (ts: number) => void;
+  /** Longest gap between ticks that is still credited, for the current frame rate (never below MAX_TICK_GAP_MS). */
+  setMaxGap: (ms: number) => void;
+  readonly maxGapMs: number;
+  /** Count one blink in the minute it happened. */
+  countBlink: (ts: number) => void;
+  /** Persist posture/coach/distraction/camera events and count posture alerts per minute. */
+  record: (e: MonitoringEvent) => void;
+  /** Credits time up to `ts` and writes the open minute right away (tab hidden or closing). */
+  flush: (ts: number) => void;
+  /**
+   * Credits the last partial minute, writes it and closes the session. Every
+   * write is issued before this returns, so an unload can't cut it short.
+   */
+  end: () => Promise<void>;
+  readonly sessionId: string | null;
+};
+
+export function createSessionRecorder(): SessionRecorder {
+  let sessionId: string | null = null;
+  let bucket: MinuteBucket | null = null;
+  // the minute written last; a late blink/alert or tick for it reopens it instead of starting over
+  let prev: MinuteBucket | null = null;
+
+  let lastTs: number | null = null;
+  // null: nothing to credit; "uncertain": person in view, posture unknown
+  let lastStates: TrackedPostureState[] | "uncertain" | null = null;
+  let lastFocus: FocusState | null = null;
+  let lastFatigue: number | null = null;
+  let lastSeverity: RecorderFrame["severity"];
+
+  let lastFlushAt = 0;
+  let maxGapMs = MAX_TICK_GAP_MS;
+
+  function write(b: MinuteBucket) {
+    putMinuteBucket(roundBucket(b)).catch((err) => console.warn("[recorder] putMinuteBucket failed", err));
+  }
+
+  function bucketFor(minuteTs: number) {
+    if (!sessionId) return null;
+    // older than both open minutes: a fresh bucket would overwrite that minute's stored row
+    if (bucket && minuteTs < bucket.minuteTs && minuteTs !== prev?.minuteTs) return null;
+    if (bucket && bucket.minuteTs !== minuteTs) {
+      write(bucket);
+      const closed = bucket;
+      bucket = prev?.minuteTs === minuteTs ? prev : null;
+      prev = closed;
+    }
+    bucket ??= emptyMinuteBucket(sessionId, minuteTs);
+    return bucket;
+  }
+
+  function credit(
+    from: number,
+    to: number,
+    states: TrackedPostureState[] | "uncertain",
+    focus: FocusState | null,
+    fatigue: number | null,
+    severity: RecorderFrame["severity"]
+  ) {
+    if (!sessionId || to <= from || to - from > maxGapMs) return;
+    if (states !== "uncertain" && states.length === 0 && !focus && fatigue == null) return;
+
+    let t = from;
+    while (t < to) {
+      const minuteTs = toMinuteTs(t);
+      const segEnd = Math.min(to, minuteTs + 60_000);
+      const b = bucketFor(minuteTs);
+      if (!b) {
+        // a minute that is already closed for good
+        t = segEnd;
+        continue;
+      }
+
+      const sec = (segEnd - t) / 1000;
+      if (states === "uncertain") {
+        b.uncertainSec = (b.uncertainSec ?? 0) + sec;
+      } else {
+        for (const s of states) {
+          b.postureSec[s] = (b.postureSec[s] ?? 0) + sec / states.length;
+          const sev = severity?.[s];
+          if (sev) {
+            b.severitySec ??= {};
+            b.severitySec[s] = (b.severitySec[s] ?? 0) + (sec / states.length) * sev;
+          }
+        }
+      }
+      if (focus) b.focusSec[FOCUS_KEY[focus]] += sec;
+      if (fatigue != null) {
+        // time-weighted; kept unrounded here, roundBucket rounds what is written
+        const before = b.fatigueSec ?? 0;
+        b.fatigueSec = before + sec;
+        b.fatigueAvg = (b.fatigueAvg * before + fatigue * sec) / b.fatigueSec;
+      }
+      t = segEnd;
+    }
+  }
+
+  function advance(ts: number) {
+    if (lastTs != null) credit(lastTs, ts, lastStates ?? [], lastFocus, lastFatigue, lastSeverity);
+    lastTs = ts;
+  }
+
+  function toTrackedStates(primary: PostureState, actives: PostureState[]): TrackedPostureState[] | "uncertain" | null {
+    if (primary === "no_person") return null;
+    if (primary === "uncertain") return "uncertain";
+    const tracked = actives.filter((s): s is TrackedPostureState => s !== "no_person" && s !== "uncertain");
+    return tracked.length ? tracked : ["good"];
+  }
+
+  async function begin() {
+    const session = await startSession(await getSettings());
+    sessionId = session.id;
+    bucket = null;
+    prev = null;
+    lastTs = null;
+    lastStates = null;
+    lastFocus = null;
+    lastFatigue = null;
+    lastSeverity = undefined;
+    lastFlushAt = Date.now();
+  }
+
+  function tick(ts: number, frame: RecorderFrame) {
+    if (!sessionId) return;
+    advance(ts);
+    lastStates = toTrackedStates(frame.primary, frame.actives);
+    lastFocus = frame.focus;
+    lastFatigue = frame.fatigue;
+    lastSeverity = frame.severity;
+
+    if (bucket && ts - lastFlushAt >= LIVE_FLUSH_MS) {
+      lastFlushAt = ts;
+      write(bucket);
+    }
+  }
+
+  function hold(ts: number) {
+    if (!sessionId) return;
+    advance(ts);
+    lastStates = null;
+    lastFocus = null;
+    lastFatigue = null;
+    lastSeverity = undefined;
+  }
+
+  function setMaxGap(ms: number) {
+    maxGapMs = Math.max(MAX_TICK_GAP_MS, ms);
+  }
+
+  function countBlink(ts: number) {
+    const b = bucketFor(toMinuteTs(ts));
+    if (b) b.blinkCount += 1;
+  }
+
+  function record(e: MonitoringEvent) {
+    if (!sessionId) return;
+    if (!PERSISTED_EVENTS.has(e.type)) return;
+
+    if (e.type === "posture_alert") {
+      const b = bucketFor(toMinuteTs(e.ts));
+      if (b) b.alertCount += 1;
+    }
+
+    logEvent({
+      id: uid(),
+      ts: e.ts,
+      sessionId,
+      type: e.type as EventType,
+      payload: e.payload as Record<string, unknown>,
+    }).catch((err) => console.warn("[recorder] logEvent failed", err));
+  }
+
+  function flush(ts: number) {
+    if (!sessionId) return;
+    advance(ts);
+    if (!bucket) return;
+    lastFlushAt = ts;
+    write(bucket);
+  }
+
+  function end() {
+    const id = sessionId;
+    if (!id) return Promise.resolve();
+
+    flush(Date.now());
+
+    sessionId = null;
+    bucket = null;
+    prev = null;
+    lastTs = null;
+    lastStates = null;
+    lastFocus = null;
+    lastFatigue = null;
+    lastSeverity = undefined;
+
+    return endSession(id);
+  }
+
+  return {
+    begin,
+    tick,
+    hold,
+    setMaxGap,
+    countBlink,
+    record,
+    flush,
+    end,
+    get sessionId() {
+      return sessionId;
+    },
+    get maxGapMs() {
+      return maxGapMs;
+    },
+  };
+}
@@ -0,0 +1,27 @@
+import type { UserSettings } from "@/types/contracts";
+import { COACH_PROFILES } from "@/lib/coach/coach";
+
+/** Settings used until the user saves their own (see saveSettings/loadSettings). */
+export const defaultSettings: UserSettings = {
+  sensitivity: "medium",
+  focusMode: false,
+  cameraEnabled: true,
+  voiceEnabled: false,
+  privacyMode: false,
+  inference: { backend: "auto", poseModel: "lite" },
+  camera: { deviceId: null, resolution: "720p", fps: 30 },
+  smoothing: {
+    filter: "one_euro",
+    minCutoffHz: 1.5,
+    beta: 4,
+    kalmanProcessNoise: 0.02,
+    kalmanMeasurementNoise: 0.005,
+    showRaw: false,
+  },
+  distance: { minCm: 50, maxCm: 100, cameraFovDeg: 60, focalRatio: null },
+  coach: { profile: "standard", custom: { ...COACH_PROFILES.standard } },
+  autoPause: { hiddenTab: "reduce", hiddenFps: 2, releaseAfterMin: 5, probeEverySec: 60 },
+  power: { adaptive: true, minFps: 5, maxFps: 30, faceFps: 10, trackBlinks: true, batterySaver: true },
+  reminders: { breakMin: 50, waterMin: 90, stretchMin: 60 },
+  distraction: { awayThresholdSec: 20, lookAwayThresholdSec: 10 },
+};
@@ -0,0 +1,67 @@
+import type { UserSettings } from "@/types/contracts";
+import { loadSettings, saveSettings } from "@/lib/storage/repo";
+import { defaultSettings } from "./defaults";
+
+type Listener = (s: UserSettings) => void;
+
+// Module-level cache so every page/hook sees the same settings and updates live.
+let current: UserSettings | null = null;
+let loading: Promise<UserSettings> | null = null;
+const listeners = new Set<Listener>();
+
+function withDefaults(s: Partial<UserSettings> | null): UserSettings {
+  return {
+    ...defaultSettings,
+    ...s,
+    inference: { ...defaultSettings.inference, ...s?.inference },
+    camera: { ...defaultSettings.camera, ...s?.camera },
+    smoothing: { ...defaultSettings.smoothing, ...s?.smoothing },
+    distance: { ...defaultSettings.distance, ...s?.distance },
+    coach: {
+      ...defaultSettings.coach,
+      ...s?.coach,
+      custom: { ...defaultSettings.coach.custom, ...s?.coach?.custom },
+    },
+    autoPause: { ...defaultSettings.autoPause, ...s?.autoPause },
+    power: { ...defaultSettings.power, ...s?.power },
+    reminders: { ...defaultSettings.reminders, ...s?.reminders },
+    distraction: { ...defaultSettings.distraction, ...s?.distraction },
+  };
+}
+
+export function peekSettings() {
+  return current;
+}
+
+export async function getSettings(): Promise<UserSettings> {
+  if (current) return current;
+  if (!loading) {
+    loading = loadSettings()
+      .catch((err) => {
+        console.warn("[settings] load failed, using defaults", err);
+        return null;
+      })
+      .then((s) => {
+        // an update may have landed while we were loading
+        current = current ?? withDefaults(s);
+        return current;
+      });
+  }
+  return loading;
+}
+
+export async function updateSettings(patch: Partial<UserSettings> | ((s: UserSettings) => UserSettings)) {
+  const prev = await getSettings();
+  const next = typeof patch === "function" ? patch(prev) : { ...prev, ...patch };
+  current = next;
+  listeners.forEach((fn) => fn(next));
+  await saveSettings(next);
+  return next;
+}
+
+export function subscribeSettings(fn: Listener) {
+  listeners.add(fn);
+  return () => {
+    listeners.delete(fn);
+  };
+}
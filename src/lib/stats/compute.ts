@@ -1,23 +1,30 @@
-import type { MinuteBucket, PostureState, AppEvent } from "@/types/contracts";
-
-const POSTURE: PostureState[] = [
-  "good",
-  "slouch",
-  "lean_left",
-  "lean_right",
-  "too_close",
-  "shoulder_imbalance",
-];
+import type { MinuteBucket, AppEvent } from "@/types/contracts";
+import {
+  CATEGORY_LABEL,
+  CATEGORY_WEIGHT,
+  POSTURE_CATEGORIES,
+  POSTURE_CATEGORY,
+  POSTURE_STATES,
+  categorySec,
+  emptyPostureSec,
+  normalizePostureSec,
+  postureLabel,
+  type PostureSec,
+  type TrackedPostureState,
+} from "@/lib/posture/taxonomy";
+
+/**
+ * Seconds of eye data behind a bucket's fatigueAvg. Older rows have no fatigueSec:
+ * a non-zero average counts as a full minute, a zero one as no data.
+ */
+export function fatigueWeight(b: MinuteBucket) {
+  return b.fatigueSec ?? (b.fatigueAvg ? 60 : 0);
+}
 
 export function sumBuckets(buckets: MinuteBucket[]) {
-  const postureSec: Record<PostureState, number> = {
-    good: 0,
-    slouch: 0,
-    lean_left: 0,
-    lean_right: 0,
-    too_close: 0,
-    shoulder_imbalance: 0,
-  };
+  const postureSec = emptyPostureSec();
+  const severitySec = emptyPostureSec();
+  let uncertainSec = 0;
 
   let screenFacing = 0;
   let lookingAway = 0;
@@ -25,13 +32,19 @@ export function sumBuckets(buckets: MinuteBucket[]) {
 
   let blinks = 0;
   let fatigueSum = 0;
-  let fatigueCount = 0;
+  let fatigueSec = 0;
 
   let alerts = 0;
   let breakRem = 0, waterRem = 0, stretchRem = 0;
 
   for (const b of buckets) {
-    for (const s of POSTURE) postureSec[s] += b.postureSec?.[s] ?? 0;
+    // normalize so imported/legacy rows still land on canonical states
+    const sec = normalizePostureSec(b.postureSec ?? {});
+    for (const s of POSTURE_STATES) postureSec[s] += sec[s] ?? 0;
+    // older rows have no severity; count their issue time at full weight
+    const sev = b.severitySec ? normalizePostureSec(b.severitySec) : sec;
+    for (const s of POSTURE_STATES) if (s !== "good") severitySec[s] += sev[s] ?? 0;
+    uncertainSec += b.uncertainSec ?? 0;
 
     screenFacing += b.focusSec?.screenFacing ?? 0;
     lookingAway += b.focusSec?.lookingAway ?? 0;
@@ -39,9 +52,10 @@ export function sumBuckets(buckets: MinuteBucket[]) {
 
     blinks += b.blinkCount ?? 0;
 
-    if (Number.isFinite(b.fatigueAvg)) {
-      fatigueSum += b.fatigueAvg;
-      fatigueCount += 1;
+    const fw = fatigueWeight(b);
+    if (fw > 0 && Number.isFinite(b.fatigueAvg)) {
+      fatigueSum += b.fatigueAvg * fw;
+      fatigueSec += fw;
     }
 
     alerts += b.alertCount ?? 0;
@@ -51,83 +65,103 @@ export function sumBuckets(buckets: MinuteBucket[]) {
     stretchRem += b.reminderCount?.stretch ?? 0;
   }
 
-  const totalPosture = POSTURE.reduce((acc, s) => acc + postureSec[s], 0);
+  const totalPosture = POSTURE_STATES.reduce((acc, s) => acc + postureSec[s], 0);
 
   return {
     postureSec,
+    severitySec,
+    /** Person in view but posture unknown; not part of totalPostureSec or the score */
+    uncertainSec,
     focusSec: { screenFacing, lookingAway, away },
     blinks,
-    avgFatigue: fatigueCount ? fatigueSum / fatigueCount : 0,
+    avgFatigue: fatigueSec ? fatigueSum / fatigueSec : 0,
     alerts,
     reminders: { break: breakRem, water: waterRem, stretch: stretchRem },
     totalPostureSec: totalPosture,
   };
 }
 
-export function postureScore(postureSec: Record<PostureState, number>) {
-  const total =
-    postureSec.good +
-    postureSec.slouch +
-    postureSec.lean_left +
-    postureSec.lean_right +
-    postureSec.too_close +
-    postureSec.shoulder_imbalance;
+/** Share of each bad second that counts regardless of severity; the rest scales with it. */
+const DURATION_SHARE = 0.5;
+
+/**
+ * 0-100. With `severitySec`, a mild issue costs less than a severe one of the
+ * same length: the part of its time not counted as bad is credited as good.
+ */
+export function postureScore(postureSec: PostureSec, severitySec?: PostureSec) {
+  let total = 0;
+  let bad = 0;
+  let good = postureSec.good ?? 0;
+
+  for (const s of POSTURE_STATES) {
+    const sec = postureSec[s] ?? 0;
+    total += sec;
+    if (s === "good") continue;
+    const sev = severitySec ? Math.min(sec, severitySec[s] ?? 0) : sec;
+    const weighted = DURATION_SHARE * sec + (1 - DURATION_SHARE) * sev;
+    good += sec - weighted;
+    bad += weighted * CATEGORY_WEIGHT[POSTURE_CATEGORY[s]];
+  }
 
   if (total <= 0) return 0;
 
-  const bad =
-    postureSec.slouch * 1.0 +
-    (postureSec.lean_left + postureSec.lean_right) * 0.7 +
-    postureSec.too_close * 0.6 +
-    postureSec.shoulder_imbalance * 0.5;
-
-  const goodRatio = postureSec.good / total;
+  const goodRatio = good / total;
   const badRatio = bad / total;
 
   const score = Math.round(100 * Math.max(0, goodRatio - 0.35 * badRatio));
   return Math.max(0, Math.min(100, score));
 }
 
-export function topIssue(postureSec: Record<PostureState, number>) {
-  const entries = Object.entries(postureSec).filter(([k]) => k !== "good") as [PostureState, number][];
-  entries.sort((a, b) => b[1] - a[1]);
-  return entries[0]?.[0] ?? "good";
+export function topIssue(postureSec: PostureSec): TrackedPostureState {
+  let top: TrackedPostureState = "good";
+  let topSec = 0;
+  for (const s of POSTURE_STATES) {
+    if (s === "good") continue;
+    const sec = postureSec[s] ?? 0;
+    if (sec > topSec) {
+      topSec = sec;
+      top = s;
+    }
+  }
+  return top;
 }
 
 export function chartRows(buckets: MinuteBucket[]) {
-  return buckets.map((b) => ({
-    minuteTs: b.minuteTs,
-    time: new Date(b.minuteTs).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" }),
+  return buckets.map((b) => {
+    const sec = normalizePostureSec(b.postureSec ?? {});
+    const cat = categorySec(sec);
+    return {
+      minuteTs: b.minuteTs,
+      time: new Date(b.minuteTs).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" }),
 
-    postureScore: postureScore(b.postureSec),
+      postureScore: postureScore(sec, b.severitySec ? normalizePostureSec(b.severitySec) : undefined),
 
-    good: b.postureSec.good ?? 0,
-    slouch: b.postureSec.slouch ?? 0,
-    leanLeft: b.postureSec.lean_left ?? 0,
-    leanRight: b.postureSec.lean_right ?? 0,
-    tooClose: b.postureSec.too_close ?? 0,
-    shoulderImbalance: b.postureSec.shoulder_imbalance ?? 0,
+      ...cat,
 
-    screenFacing: b.focusSec.screenFacing ?? 0,
-    lookingAway: b.focusSec.lookingAway ?? 0,
-    away: b.focusSec.away ?? 0,
+      screenFacing: b.focusSec.screenFacing ?? 0,
+      lookingAway: b.focusSec.lookingAway ?? 0,
+      away: b.focusSec.away ?? 0,
 
-    blinks: b.blinkCount ?? 0,
-    fatigue: b.fatigueAvg ?? 0,
+      blinks: b.blinkCount ?? 0,
+      // no eye data: a gap in the chart rather than a 0
+      fatigue: fatigueWeight(b) > 0 ? b.fatigueAvg : null,
 
-    alerts: b.alertCount ?? 0,
-  }));
+      alerts: b.alertCount ?? 0,
+    };
+  });
 }
 
-export function postureBreakdownData(postureSec: Record<PostureState, number>) {
-  return [
-    { name: "Good", value: postureSec.good },
-    { name: "Slouch", value: postureSec.slouch },
-    { name: "Lean Left", value: postureSec.lean_left },
-    { name: "Lean Right", value: postureSec.lean_right },
-    { name: "Too Close", value: postureSec.too_close },
-    { name: "Shoulder Imbalance", value: postureSec.shoulder_imbalance },
-  ];
+/** One slice per category (always the same order, so colors stay stable). */
+export function postureBreakdownData(postureSec: PostureSec) {
+  const cat = categorySec(postureSec);
+  return POSTURE_CATEGORIES.map((c) => ({ name: CATEGORY_LABEL[c], value: cat[c] }));
+}
+
+/** Every non-zero fine-grained issue, worst first. */
+export function postureIssueData(postureSec: PostureSec) {
+  return POSTURE_STATES.filter((s) => s !== "good" && (postureSec[s] ?? 0) > 0)
+    .map((s) => ({ state: s, name: postureLabel(s), category: POSTURE_CATEGORY[s], value: postureSec[s] ?? 0 }))
+    .sort((a, b) => b.value - a.value);
 }
 
 export function focusBreakdownData(focusSec: { screenFacing: number; lookingAway: number; away: number }) {
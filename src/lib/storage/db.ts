@@ -1,13 +1,26 @@
 import Dexie, { Table } from "dexie";
-import type { Session, MinuteBucket, AppEvent, UserSettings } from "@/types/contracts";
+import type {
+  Session,
+  MinuteBucket,
+  AppEvent,
+  UserSettings,
+  PostureBaseline,
+  LandmarkRecording,
+  RecordingChunk,
+} from "@/types/contracts";
+import { normalizePostureSec } from "@/lib/posture/taxonomy";
 
-type KVRow = { key: "settings"; value: UserSettings };
+type KVRow =
+  | { key: "settings"; value: UserSettings }
+  | { key: "baseline"; value: PostureBaseline };
 
 class PostureSenseDB extends Dexie {
   sessions!: Table<Session, string>;
   minuteBuckets!: Table<MinuteBucket, string>;
   events!: Table<AppEvent, string>;
   kv!: Table<KVRow, string>;
+  recordings!: Table<LandmarkRecording, string>;
+  recordingChunks!: Table<RecordingChunk, string>;
 
   constructor() {
     super("posture-sense-db");
@@ -18,6 +31,26 @@ class PostureSenseDB extends Dexie {
       events: "id, ts, sessionId, type",
       kv: "key",
     });
+
+    // v2: buckets use the unified PostureState taxonomy (shoulder_imbalance -> shoulders_unlevel, sparse postureSec)
+    this.version(2)
+      .stores({
+        minuteBuckets: "id, sessionId, minuteTs, [sessionId+minuteTs]",
+      })
+      .upgrade((tx) =>
+        tx
+          .table("minuteBuckets")
+          .toCollection()
+          .modify((b: MinuteBucket) => {
+            b.postureSec = normalizePostureSec(b.postureSec ?? {});
+          })
+      );
+
+    // v3: landmark recordings for replay (metadata + chunks of ~5s of frames)
+    this.version(3).stores({
+      recordings: "id, createdAt",
+      recordingChunks: "id, recordingId, [recordingId+seq]",
+    });
   }
 }
 
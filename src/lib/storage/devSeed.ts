@@ -1,17 +1,10 @@
 import type { MinuteBucket, Session, UserSettings } from "@/types/contracts";
 import { db } from "./db";
 import { uid, toMinuteTs } from "./repo";
+import { defaultSettings } from "@/lib/settings/defaults";
 
 export async function seedFakeData() {
-  const settings: UserSettings = {
-    sensitivity: "medium",
-    focusMode: false,
-    cameraEnabled: true,
-    voiceEnabled: false,
-    privacyMode: false,
-    reminders: { breakMin: 50, waterMin: 90, stretchMin: 60 },
-    distraction: { awayThresholdSec: 20, lookAwayThresholdSec: 10 },
-  };
+  const settings: UserSettings = defaultSettings;
 
   const session: Session = { id: uid(), startTs: Date.now() - 60 * 60_000, settingsSnapshot: settings };
   await db.sessions.put(session);
@@ -26,14 +19,7 @@ export async function seedFakeData() {
       id: uid(),
       sessionId: session.id,
       minuteTs: t,
-      postureSec: {
-        good,
-        slouch,
-        lean_left: 0,
-        lean_right: 0,
-        too_close: 0,
-        shoulder_imbalance: 0,
-      },
+      postureSec: { good, slouch },
       focusSec: {
         screenFacing: 55,
         lookingAway: 3,
@@ -41,6 +27,7 @@ export async function seedFakeData() {
       },
       blinkCount: 12 + Math.floor(Math.random() * 8),
       fatigueAvg: 20 + Math.floor(Math.random() * 40),
+      fatigueSec: 60,
       alertCount: slouch > 15 ? 1 : 0,
       reminderCount: { break: 0, water: 0, stretch: 0 },
     };
@@ -1,5 +1,14 @@
 import { db } from "./db";
-import type { AppEvent, MinuteBucket, Session, UserSettings } from "@/types/contracts";
+import type {
+  AppEvent,
+  LandmarkRecording,
+  MinuteBucket,
+  PostureBaseline,
+  RecordedFrame,
+  RecordingChunk,
+  Session,
+  UserSettings,
+} from "@/types/contracts";
 
 /** Round timestamp down to the minute boundary */
 export const toMinuteTs = (ts: number) => Math.floor(ts / 60000) * 60000;
@@ -14,7 +23,20 @@ export async function saveSettings(settings: UserSettings) {
 
 export async function loadSettings(): Promise<UserSettings | null> {
   const row = await db.kv.get("settings");
-  return row?.value ?? null;
+  return row?.key === "settings" ? row.value : null;
+}
+
+export async function saveBaseline(baseline: PostureBaseline) {
+  await db.kv.put({ key: "baseline", value: baseline });
+}
+
+export async function loadBaseline(): Promise<PostureBaseline | null> {
+  const row = await db.kv.get("baseline");
+  return row?.key === "baseline" ? row.value : null;
+}
+
+export async function clearBaseline() {
+  await db.kv.delete("baseline");
 }
 
 export async function startSession(settingsSnapshot: Session["settingsSnapshot"]) {
@@ -38,15 +60,14 @@ export async function startSession(settingsSnapshot: Session["settingsSnapshot"]
 
 export async function endSession(sessionId: string) {
   const endTs = Date.now();
-  await db.sessions.update(sessionId, { endTs });
-
   const ev: AppEvent = {
     id: uid(),
     ts: endTs,
     sessionId,
     type: "session_end",
   };
-  await db.events.put(ev);
+  // both writes start now: on pagehide nothing after the first await is guaranteed to run
+  await Promise.all([db.sessions.update(sessionId, { endTs }), db.events.put(ev)]);
 }
 
 export async function putMinuteBucket(bucket: MinuteBucket) {
@@ -84,6 +105,38 @@ export async function getEventsInRange(startMs: number, endMs: number, sessionId
   return sessionId ? evs.filter(e => e.sessionId === sessionId) : evs;
 }
 
+export async function putRecording(recording: LandmarkRecording) {
+  await db.recordings.put(recording);
+}
+
+export async function putRecordingChunk(chunk: RecordingChunk) {
+  await db.recordingChunks.put(chunk);
+}
+
+/** Newest first */
+export async function listRecordings() {
+  return db.recordings.orderBy("createdAt").reverse().toArray();
+}
+
+export async function getRecording(id: string) {
+  return db.recordings.get(id);
+}
+
+export async function loadRecordingFrames(recordingId: string): Promise<RecordedFrame[]> {
+  const chunks = await db.recordingChunks
+    .where("[recordingId+seq]")
+    .between([recordingId, 0], [recordingId, Infinity], true, true)
+    .sortBy("seq");
+  return chunks.flatMap((c) => c.frames);
+}
+
+export async function deleteRecording(id: string) {
+  await db.transaction("rw", db.recordings, db.recordingChunks, async () => {
+    await db.recordingChunks.where("recordingId").equals(id).delete();
+    await db.recordings.delete(id);
+  });
+}
+
 /** For Dashboard/Gemini: last N minutes (all sessions) */
 export async function getLastNMinutesBuckets(nMinutes: number) {
   const end = Date.now();
@@ -0,0 +1,53 @@
+import type { CameraDevice } from "@/types";
+import type { CameraResolution, CameraSettings } from "@/types/contracts";
+
+export const CAMERA_RESOLUTIONS: Record<CameraResolution, { width: number; height: number }> = {
+  "480p": { width: 640, height: 480 },
+  "720p": { width: 1280, height: 720 },
+  "1080p": { width: 1920, height: 1080 },
+};
+
+export const CAMERA_FPS = [15, 24, 30, 60];
+
+export async function listCameras(): Promise<CameraDevice[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices
+    .filter((d) => d.kind === "videoinput" && d.deviceId)
+    .map((d, i) => ({ deviceId: d.deviceId, label: d.label || `Camera ${i + 1}` }));
+}
+
+function constraints(s: CameraSettings, deviceId: string | null): MediaStreamConstraints {
+  const { width, height } = CAMERA_RESOLUTIONS[s.resolution] ?? CAMERA_RESOLUTIONS["720p"];
+  return {
+    video: {
+      ...(deviceId ? { deviceId: { exact: deviceId } } : {}),
+      width: { ideal: width },
+      height: { ideal: height },
+      frameRate: { ideal: s.fps },
+    },
+    audio: false,
+  };
+}
+
+/**
+ * Opens the configured camera. A saved device that is no longer plugged in
+ * falls back to the default camera rather than failing the start.
+ */
+export async function openCamera(s: CameraSettings): Promise<MediaStream> {
+  if (s.deviceId) {
+    try {
+      return await navigator.mediaDevices.getUserMedia(constraints(s, s.deviceId));
+    } catch (err) {
+      const name = err instanceof DOMException ? err.name : "";
+      if (name !== "OverconstrainedError" && name !== "NotFoundError") throw err;
+      console.warn("[camera] saved device unavailable, using the default camera", err);
+    }
+  }
+  return navigator.mediaDevices.getUserMedia(constraints(s, null));
+}
+
+/** deviceId of the stream's video track (what the browser actually picked). */
+export function streamDeviceId(stream: MediaStream): string | null {
+  return stream.getVideoTracks()[0]?.getSettings().deviceId ?? null;
+}
@@ -0,0 +1,100 @@
+import type { FaceLandmarker, PoseLandmarker } from "@mediapipe/tasks-vision";
+import { createLandmarkers } from "@/lib/vision/mediapipe";
+import type { FaceResult, FrameResult, Landmark, WorkerRequest, WorkerResponse } from "./protocol";
+
+type WorkerScope = {
+  postMessage: (msg: WorkerResponse) => void;
+  onmessage: ((e: MessageEvent<WorkerRequest>) => void) | null;
+  importScripts: (...urls: string[]) => void;
+  close: () => void;
+};
+
+const ctx = self as unknown as WorkerScope;
+
+// MediaPipe loads its wasm glue with importScripts(), which throws in module
+// workers. Load it synchronously and evaluate it in global scope instead so
+// it can define the global ModuleFactory exactly like a classic worker would.
+ctx.importScripts = (...urls: string[]) => {
+  for (const url of urls) {
+    const xhr = new XMLHttpRequest();
+    xhr.open("GET", url, false);
+    xhr.send();
+    if (xhr.status >= 400) throw new Error(`Failed to load ${url} (${xhr.status})`);
+    (0, eval)(xhr.responseText);
+  }
+};
+
+let pose: PoseLandmarker | null = null;
+let face: FaceLandmarker | null = null;
+
+function reply(msg: WorkerResponse) {
+  ctx.postMessage(msg);
+}
+
+function detect(frame: ImageBitmap | VideoFrame, ts: number, runFace: boolean): FrameResult {
+  const t0 = performance.now();
+
+  const poseRes = pose!.detectForVideo(frame, ts);
+  const poseLms = (poseRes.landmarks?.[0] as Landmark[] | undefined) ?? null;
+
+  let faceOut: FaceResult | null = null;
+  const faceRan = runFace && !!face;
+  if (faceRan) {
+    const faceRes = face!.detectForVideo(frame, ts);
+    const lms = faceRes.faceLandmarks?.[0] as Landmark[] | undefined;
+    if (lms?.length) {
+      const matrix = faceRes.facialTransformationMatrixes?.[0]?.data;
+      faceOut = {
+        landmarks: lms.map((p) => ({ x: p.x, y: p.y, z: p.z })),
+        blendshapes:
+          faceRes.faceBlendshapes?.[0]?.categories.map((c) => ({ categoryName: c.categoryName, score: c.score })) ??
+          null,
+        matrix: matrix ? Array.from(matrix) : null,
+      };
+    }
+  }
+
+  return {
+    ts,
+    pose: poseLms ? poseLms.map((p) => ({ x: p.x, y: p.y, z: p.z, visibility: p.visibility })) : null,
+    face: faceOut,
+    faceRan,
+    inferenceMs: performance.now() - t0,
+  };
+}
+
+ctx.onmessage = async (e) => {
+  const msg = e.data;
+
+  if (msg.type === "init") {
+    try {
+      const created = await createLandmarkers(msg.options);
+      pose = created.pose;
+      face = created.face;
+      reply({ type: "ready", delegate: created.delegate });
+    } catch (err) {
+      reply({ type: "error", message: err instanceof Error ? err.message : String(err) });
+    }
+    return;
+  }
+
+  if (msg.type === "detect") {
+    try {
+      if (!pose) throw new Error("inference worker not initialized");
+      reply({ type: "result", id: msg.id, result: detect(msg.frame, msg.ts, msg.runFace) });
+    } catch (err) {
+      reply({ type: "error", id: msg.id, message: err instanceof Error ? err.message : String(err) });
+    } finally {
+      msg.frame.close();
+    }
+    return;
+  }
+
+  if (msg.type === "close") {
+    pose?.close();
+    face?.close();
+    pose = null;
+    face = null;
+    ctx.close();
+  }
+};
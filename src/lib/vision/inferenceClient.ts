@@ -0,0 +1,94 @@
+import type { Delegate } from "./mediapipe";
+import type { FrameResult, InferenceInitOptions, WorkerRequest, WorkerResponse } from "./protocol";
+
+type Pending = { resolve: (r: FrameResult) => void; reject: (err: Error) => void };
+
+/**
+ * Main-thread handle to the inference worker.
+ * One request per frame; callers should wait for a result before sending the
+ * next frame so a slow device drops frames instead of queueing them.
+ */
+export function createInferenceClient() {
+  const worker = new Worker(new URL("./inference.worker.ts", import.meta.url), { type: "module" });
+
+  let nextId = 1;
+  const pending = new Map<number, Pending>();
+  // set once the worker has crashed; it is terminated and every later call rejects
+  let failed: Error | null = null;
+  let onReady: { resolve: (delegate: Delegate) => void; reject: (err: Error) => void } | null = null;
+
+  function post(msg: WorkerRequest, transfer: Transferable[] = []) {
+    worker.postMessage(msg, transfer);
+  }
+
+  worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+    const msg = e.data;
+    if (msg.type === "ready") {
+      onReady?.resolve(msg.delegate);
+      onReady = null;
+    } else if (msg.type === "result") {
+      pending.get(msg.id)?.resolve(msg.result);
+      pending.delete(msg.id);
+    } else if (msg.type === "error") {
+      const err = new Error(msg.message);
+      if (msg.id != null) {
+        pending.get(msg.id)?.reject(err);
+        pending.delete(msg.id);
+      } else {
+        onReady?.reject(err);
+        onReady = null;
+      }
+    }
+  };
+
+  worker.onerror = (e) => {
+    const err = new Error(e.message || "inference worker crashed");
+    failed = err;
+    worker.terminate();
+    onReady?.reject(err);
+    onReady = null;
+    pending.forEach((p) => p.reject(err));
+    pending.clear();
+  };
+
+  /** Resolves with the delegate actually in use (after any GPU -> CPU fallback). */
+  function init(options: InferenceInitOptions) {
+    return new Promise<Delegate>((resolve, reject) => {
+      if (failed) return reject(failed);
+      onReady = { resolve, reject };
+      post({ type: "init", options });
+    });
+  }
+
+  /** Transfers (and so consumes) `frame`. */
+  function detect(frame: ImageBitmap | VideoFrame, ts: number, runFace: boolean) {
+    const id = nextId++;
+    return new Promise<FrameResult>((resolve, reject) => {
+      if (failed) return reject(failed);
+      pending.set(id, { resolve, reject });
+      post({ type: "detect", id, ts, frame, runFace }, [frame]);
+    });
+  }
+
+  function close() {
+    if (!failed) post({ type: "close" });
+    worker.terminate();
+    const err = new Error("inference worker closed");
+    pending.forEach((p) => p.reject(err));
+    pending.clear();
+    onReady?.reject(err);
+    onReady = null;
+  }
+
+  return {
+    init,
+    detect,
+    close,
+    /** Why the worker died, or null while it is alive. */
+    get failed() {
+      return failed;
+    },
+  };
+}
+
+export type InferenceClient = ReturnType<typeof createInferenceClient>;
@@ -1,39 +1,188 @@
 import { FilesetResolver, PoseLandmarker, FaceLandmarker } from "@mediapipe/tasks-vision";
+import type { InferenceBackend, PoseModelVariant } from "@/types/contracts";
 
-const WASM_BASE =
-  "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.0/wasm";
+/**
+ * Assets are self-hosted under BASE_URL (public/mediapipe by default, see
+ * scripts/mediapipe-assets.mjs) and pinned to the installed package version.
+ * The public CDN/model bucket is only a fallback for missing files.
+ */
+const VERSION = process.env.NEXT_PUBLIC_MEDIAPIPE_VERSION ?? "0.10.22-rc.20250304";
+const BASE_URL = (process.env.NEXT_PUBLIC_MEDIAPIPE_BASE_URL ?? "/mediapipe").replace(/\/$/, "");
 
-const POSE_MODEL =
-  "https://storage.googleapis.com/mediapipe-models/pose_landmarker/pose_landmarker_lite/float16/1/pose_landmarker_lite.task";
+const REMOTE_WASM = `https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@${VERSION}/wasm`;
+const REMOTE_MODELS = "https://storage.googleapis.com/mediapipe-models";
 
-const FACE_MODEL =
-  "https://storage.googleapis.com/mediapipe-models/face_landmarker/face_landmarker/float16/1/face_landmarker.task";
+const POSE_MODELS: Record<PoseModelVariant, { file: string; remote: string }> = {
+  lite: {
+    file: "pose_landmarker_lite.task",
+    remote: `${REMOTE_MODELS}/pose_landmarker/pose_landmarker_lite/float16/1/pose_landmarker_lite.task`,
+  },
+  full: {
+    file: "pose_landmarker_full.task",
+    remote: `${REMOTE_MODELS}/pose_landmarker/pose_landmarker_full/float16/1/pose_landmarker_full.task`,
+  },
+  heavy: {
+    file: "pose_landmarker_heavy.task",
+    remote: `${REMOTE_MODELS}/pose_landmarker/pose_landmarker_heavy/float16/1/pose_landmarker_heavy.task`,
+  },
+};
 
-let visionPromise: Promise<any> | null = null;
+const FACE_MODEL = {
+  file: "face_landmarker.task",
+  remote: `${REMOTE_MODELS}/face_landmarker/face_landmarker/float16/1/face_landmarker.task`,
+};
+
+/** Versioned so an upgrade never serves a stale WASM/model pair. */
+const CACHE_NAME = `mediapipe-${VERSION}`;
+
+/** A concrete MediaPipe delegate (what "auto" resolved to). */
+export type Delegate = Exclude<InferenceBackend, "auto">;
+
+function absolute(url: string) {
+  return new URL(url, self.location.href).href;
+}
+
+async function openCache() {
+  if (typeof caches === "undefined") return null; // insecure context
+  try {
+    const cache = await caches.open(CACHE_NAME);
+    // drop assets of previous versions
+    for (const key of await caches.keys()) {
+      if (key.startsWith("mediapipe-") && key !== CACHE_NAME) await caches.delete(key);
+    }
+    return cache;
+  } catch (err) {
+    console.warn("[mediapipe] Cache Storage unavailable", err);
+    return null;
+  }
+}
+
+let cachePromise: ReturnType<typeof openCache> | null = null;
+const assetUrls = new Map<string, Promise<string>>();
+
+/**
+ * Resolves an asset to a blob: URL backed by Cache Storage, so later starts
+ * work offline. Tries each candidate in order (self-hosted, then remote).
+ */
+function cachedAsset(candidates: string[]) {
+  const key = candidates[0];
+  let url = assetUrls.get(key);
+  if (!url) {
+    url = (async () => {
+      cachePromise ??= openCache();
+      const cache = await cachePromise;
+
+      for (const c of candidates) {
+        const hit = await cache?.match(c);
+        if (hit) return URL.createObjectURL(await hit.blob());
+      }
+
+      let lastErr: unknown = null;
+      for (const c of candidates) {
+        try {
+          const res = await fetch(c);
+          if (!res.ok) throw new Error(`HTTP ${res.status} for ${c}`);
+          await cache?.put(c, res.clone());
+          return URL.createObjectURL(await res.blob());
+        } catch (err) {
+          lastErr = err;
+        }
+      }
+      throw lastErr;
+    })();
+    // let a failed lookup be retried on the next start()
+    url.catch(() => assetUrls.delete(key));
+    assetUrls.set(key, url);
+  }
+  return url;
+}
+
+function modelAsset(m: { file: string; remote: string }) {
+  return cachedAsset([absolute(`${BASE_URL}/models/${m.file}`), m.remote]);
+}
+
+async function loadVisionFileset() {
+  const name = (await FilesetResolver.isSimdSupported()) ? "vision_wasm_internal" : "vision_wasm_nosimd_internal";
+  const local = absolute(`${BASE_URL}/${VERSION}/wasm/${name}`);
+  const [wasmLoaderPath, wasmBinaryPath] = await Promise.all([
+    cachedAsset([`${local}.js`, `${REMOTE_WASM}/${name}.js`]),
+    cachedAsset([`${local}.wasm`, `${REMOTE_WASM}/${name}.wasm`]),
+  ]);
+  return { wasmLoaderPath, wasmBinaryPath };
+}
+
+let visionPromise: ReturnType<typeof loadVisionFileset> | null = null;
 
 async function getVisionFileset() {
   if (!visionPromise) {
-    visionPromise = FilesetResolver.forVisionTasks(WASM_BASE);
+    visionPromise = loadVisionFileset();
+    visionPromise.catch(() => (visionPromise = null));
   }
   return visionPromise;
 }
 
-export async function createPoseLandmarker() {
-  const vision = await getVisionFileset();
+export async function createPoseLandmarker(opts: { delegate?: Delegate; model?: PoseModelVariant } = {}) {
+  const [vision, modelAssetPath] = await Promise.all([
+    getVisionFileset(),
+    modelAsset(POSE_MODELS[opts.model ?? "lite"]),
+  ]);
   return PoseLandmarker.createFromOptions(vision, {
-    baseOptions: { modelAssetPath: POSE_MODEL, delegate: "GPU" },
+    baseOptions: { modelAssetPath, delegate: opts.delegate ?? "GPU" },
     runningMode: "VIDEO",
     numPoses: 1,
   });
 }
 
-export async function createFaceLandmarker() {
-  const vision = await getVisionFileset();
+export async function createFaceLandmarker(opts: { delegate?: Delegate } = {}) {
+  const [vision, modelAssetPath] = await Promise.all([getVisionFileset(), modelAsset(FACE_MODEL)]);
   return FaceLandmarker.createFromOptions(vision, {
-    baseOptions: { modelAssetPath: FACE_MODEL, delegate: "GPU" },
+    baseOptions: { modelAssetPath, delegate: opts.delegate ?? "GPU" },
     runningMode: "VIDEO",
     numFaces: 1,
     outputFaceBlendshapes: true,
     outputFacialTransformationMatrixes: true,
   });
-}
\ No newline at end of file
+}
+
+/** The GPU delegate needs WebGL2 (on an OffscreenCanvas when running in a worker). */
+export function hasWebGL2() {
+  try {
+    if (typeof OffscreenCanvas !== "undefined") return !!new OffscreenCanvas(1, 1).getContext("webgl2");
+    if (typeof document !== "undefined") return !!document.createElement("canvas").getContext("webgl2");
+  } catch {
+    // fall through
+  }
+  return false;
+}
+
+/**
+ * Creates pose (+ optional face) landmarkers on the requested backend.
+ * "auto" tries GPU first and retries everything on CPU if GPU init fails,
+ * so both landmarkers always share one delegate.
+ */
+export async function createLandmarkers(opts: {
+  backend: InferenceBackend;
+  poseModel: PoseModelVariant;
+  enableFace: boolean;
+}) {
+  async function createOn(delegate: Delegate) {
+    const pose = await createPoseLandmarker({ delegate, model: opts.poseModel });
+    try {
+      const face = opts.enableFace ? await createFaceLandmarker({ delegate }) : null;
+      return { pose, face, delegate };
+    } catch (err) {
+      pose.close();
+      throw err;
+    }
+  }
+
+  if (opts.backend !== "auto") return createOn(opts.backend);
+  if (!hasWebGL2()) return createOn("CPU");
+
+  try {
+    return await createOn("GPU");
+  } catch (err) {
+    console.warn("[mediapipe] GPU init failed, retrying on CPU", err);
+    return createOn("CPU");
+  }
+}
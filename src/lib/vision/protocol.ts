@@ -0,0 +1,44 @@
+import type { InferenceBackend, PoseModelVariant } from "@/types/contracts";
+import type { Delegate } from "./mediapipe";
+
+/**
+ * Typed message protocol between the monitoring engine (main thread) and
+ * the inference worker (inference.worker.ts). Frames go in as transferable
+ * ImageBitmap/VideoFrame, plain landmark arrays come back.
+ */
+
+export type Landmark = { x: number; y: number; z?: number; visibility?: number };
+
+export type BlendshapeCategory = { categoryName: string; score: number };
+
+export type InferenceInitOptions = {
+  enableFace: boolean;
+  backend: InferenceBackend;
+  poseModel: PoseModelVariant;
+};
+
+export type FaceResult = {
+  landmarks: Landmark[];
+  blendshapes: BlendshapeCategory[] | null;
+  /** 4x4 column-major facial transformation matrix */
+  matrix: number[] | null;
+};
+
+export type FrameResult = {
+  ts: number;
+  pose: Landmark[] | null;
+  /** null when face ran but found nothing (see faceRan) */
+  face: FaceResult | null;
+  faceRan: boolean;
+  inferenceMs: number;
+};
+
+export type WorkerRequest =
+  | { type: "init"; options: InferenceInitOptions }
+  | { type: "detect"; id: number; ts: number; frame: ImageBitmap | VideoFrame; runFace: boolean }
+  | { type: "close" };
+
+export type WorkerResponse =
+  | { type: "ready"; delegate: Delegate }
+  | { type: "result"; id: number; result: FrameResult }
+  | { type: "error"; id?: number; message: string };
@@ -0,0 +1,160 @@
+import type { PostureState } from "@/types";
+import type { PowerSettings } from "@/types/contracts";
+import { BLINK } from "@/lib/eyes/blink";
+
+/**
+ * Adaptive inference rate.
+ *
+ * Pose runs at maxFps while issues are appearing or active. Once posture has
+ * been settled (nothing flagged, even before stabilization) for SETTLE_MS, the
+ * rate halves every further SETTLE_MS, down to minFps. Face tracking has its
+ * own, lower clock. On battery (batterySaver) every rate is halved. With
+ * trackBlinks no rate drops below BLINK.minFaceFps, so blinks stay measurable.
+ */
+
+/** Settled time before each halving of the pose rate. */
+const SETTLE_MS = 10_000;
+
+/** Frames arrive on rAF, so a face frame due a few ms from now counts as due. */
+const FACE_SLACK = 0.9;
+
+export type SchedulerObservation = {
+  primary: PostureState;
+  actives: PostureState[];
+  candidates: PostureState[];
+  /** Calibration needs every frame, face included */
+  calibrating: boolean;
+};
+
+export function createFrameScheduler(initial: PowerSettings) {
+  let settings = initial;
+  let onBattery = false;
+  let settledSince: number | null = null;
+  let lastPrimary: PostureState | null = null;
+  let calibrating = false;
+  let lastFaceAt: number | null = null;
+  let poseFps = initial.maxFps;
+
+  function scale(fps: number) {
+    return settings.batterySaver && onBattery ? fps / 2 : fps;
+  }
+
+  function floorFps() {
+    return settings.trackBlinks ? BLINK.minFaceFps : 1;
+  }
+
+  function maxFps() {
+    return Math.max(floorFps(), scale(settings.maxFps));
+  }
+
+  function minFps() {
+    return Math.min(maxFps(), Math.max(floorFps(), scale(settings.minFps)));
+  }
+
+  function faceFps() {
+    return Math.max(settings.trackBlinks ? BLINK.minFaceFps : 0.1, scale(settings.faceFps));
+  }
+
+  /** Feed each analyzed live frame; returns the pose fps to aim for next. */
+  function observe(now: number, o: SchedulerObservation) {
+    calibrating = o.calibrating;
+    // someone arriving or leaving restarts at the full rate
+    const settled =
+      !o.calibrating &&
+      o.primary === lastPrimary &&
+      (o.primary === "good" || o.primary === "no_person") &&
+      o.actives.length === 0 &&
+      o.candidates.length === 0;
+    lastPrimary = o.primary;
+
+    if (!settled) settledSince = null;
+    else settledSince ??= now;
+
+    if (!settings.adaptive || settledSince == null) {
+      poseFps = maxFps();
+      return poseFps;
+    }
+    const halvings = Math.floor((now - settledSince) / SETTLE_MS);
+    poseFps = Math.max(minFps(), maxFps() / 2 ** halvings);
+    return poseFps;
+  }
+
+  /** Whether the frame taken at `now` should also run face tracking; records it if so. */
+  function takeFace(now: number) {
+    const interval = 1000 / faceFps();
+    if (!calibrating && lastFaceAt != null && now - lastFaceAt < interval * FACE_SLACK) return false;
+    lastFaceAt = now;
+    return true;
+  }
+
+  /** Expected gap between face frames, for holding face-derived signals in between. */
+  function faceIntervalMs() {
+    return Math.max(1000 / faceFps(), 1000 / (poseFps || maxFps()));
+  }
+
+  function configure(next: PowerSettings) {
+    settings = next;
+    poseFps = Math.min(Math.max(poseFps, minFps()), maxFps());
+  }
+
+  function setOnBattery(value: boolean) {
+    onBattery = value;
+    poseFps = Math.min(Math.max(poseFps, minFps()), maxFps());
+  }
+
+  function reset() {
+    settledSince = null;
+    lastPrimary = null;
+    calibrating = false;
+    lastFaceAt = null;
+    poseFps = maxFps();
+  }
+
+  return {
+    observe,
+    takeFace,
+    faceIntervalMs,
+    configure,
+    setOnBattery,
+    reset,
+    get fps() {
+      return poseFps;
+    },
+    get onBattery() {
+      return onBattery;
+    },
+  };
+}
+
+export type FrameScheduler = ReturnType<typeof createFrameScheduler>;
+
+type BatteryManager = EventTarget & { charging: boolean };
+
+/**
+ * Calls `onChange(onBattery)` now and whenever charging changes. A no-op where the
+ * Battery Status API is missing (Firefox, Safari): those are treated as plugged in.
+ */
+export function watchBattery(onChange: (onBattery: boolean) => void): () => void {
+  const nav = navigator as Navigator & { getBattery?: () => Promise<BatteryManager> };
+  if (!nav.getBattery) return () => {};
+
+  let battery: BatteryManager | null = null;
+  let alive = true;
+  const update = () => {
+    if (battery) onChange(!battery.charging);
+  };
+  nav
+    .getBattery()
+    .then((b) => {
+      if (!alive) return;
+      battery = b;
+      b.addEventListener("chargingchange", update);
+      update();
+    })
+    .catch((err) => console.warn("[power] battery status unavailable", err));
+
+  return () => {
+    alive = false;
+    battery?.removeEventListener("chargingchange", update);
+  };
+}
@@ -0,0 +1,137 @@
+import type { SmoothingSettings } from "@/types/contracts";
+import type { Landmark } from "./protocol";
+
+/**
+ * Temporal landmark smoothing between inference and the posture math.
+ *
+ * Both filters are driven by frame timestamps (not frame counts), so they
+ * behave the same at any fpsCap. Each coordinate is weighted by the
+ * landmark's visibility: occluded points lean on their history instead of
+ * following the noisy estimate.
+ */
+
+/** Frames further apart than this restart the filters (tracking gap, seek). */
+const MAX_GAP_MS = 1_000;
+
+/** Floor for visibility weighting, so a hidden point still drifts back eventually. */
+const MIN_WEIGHT = 0.05;
+
+type Scalar = {
+  /** Filter one sample; dt in seconds, weight in [0, 1]. */
+  next(value: number, dt: number, weight: number): number;
+};
+
+const smoothingAlpha = (cutoffHz: number, dt: number) => {
+  const tau = 1 / (2 * Math.PI * cutoffHz);
+  return 1 / (1 + tau / dt);
+};
+
+/** One Euro filter (Casiez et al.): cutoff rises with speed, so rest is smooth and fast moves lag little. */
+function createOneEuro(minCutoffHz: number, beta: number, dCutoffHz = 1): Scalar {
+  let x: number | null = null;
+  let dx = 0;
+  return {
+    next(value, dt, weight) {
+      if (x == null) {
+        x = value;
+        return x;
+      }
+      dx += smoothingAlpha(dCutoffHz, dt) * ((value - x) / dt - dx);
+      const cutoff = minCutoffHz + beta * Math.abs(dx);
+      x += weight * smoothingAlpha(cutoff, dt) * (value - x);
+      return x;
+    },
+  };
+}
+
+/**
+ * Constant-velocity Kalman filter. `processNoise` is the acceleration
+ * spectral density (units²/s³), `measurementNoise` the per-sample std-dev
+ * at full visibility.
+ */
+function createKalman(processNoise: number, measurementNoise: number): Scalar {
+  let x: number | null = null;
+  let v = 0;
+  // covariance [[p00, p01], [p01, p11]]
+  let p00 = 1;
+  let p01 = 0;
+  let p11 = 1;
+  return {
+    next(value, dt, weight) {
+      if (x == null) {
+        x = value;
+        p00 = measurementNoise ** 2;
+        return x;
+      }
+      // predict
+      x += v * dt;
+      const q = processNoise;
+      p00 += dt * (2 * p01 + dt * p11) + (q * dt ** 3) / 3;
+      p01 += dt * p11 + (q * dt ** 2) / 2;
+      p11 += q * dt;
+
+      // update; low visibility inflates the measurement variance
+      const r = measurementNoise ** 2 / (weight * weight);
+      const s = p00 + r;
+      const k0 = p00 / s;
+      const k1 = p01 / s;
+      const y = value - x;
+      x += k0 * y;
+      v += k1 * y;
+      p11 -= k1 * p01;
+      p01 -= k1 * p00;
+      p00 -= k0 * p00;
+      return x;
+    },
+  };
+}
+
+function createScalar(s: SmoothingSettings): Scalar {
+  return s.filter === "kalman"
+    ? createKalman(s.kalmanProcessNoise, s.kalmanMeasurementNoise)
+    : createOneEuro(s.minCutoffHz, s.beta);
+}
+
+/**
+ * Smooths one landmark set (pose or face) across frames. Returns the input
+ * unchanged when the filter is "off".
+ */
+export function createLandmarkSmoother(settings: SmoothingSettings) {
+  let config = settings;
+  let filters: { x: Scalar; y: Scalar; z: Scalar }[] = [];
+  let lastTs: number | null = null;
+
+  function reset() {
+    filters = [];
+    lastTs = null;
+  }
+
+  function smooth(ts: number, landmarks: Landmark[]): Landmark[] {
+    if (config.filter === "off") return landmarks;
+
+    const dtMs = lastTs == null ? 0 : ts - lastTs;
+    if (lastTs == null || dtMs <= 0 || dtMs > MAX_GAP_MS || filters.length !== landmarks.length) {
+      filters = landmarks.map(() => ({ x: createScalar(config), y: createScalar(config), z: createScalar(config) }));
+    }
+    lastTs = ts;
+    const dt = Math.max(dtMs, 1) / 1000;
+
+    return landmarks.map((p, i) => {
+      const f = filters[i];
+      const w = Math.max(MIN_WEIGHT, Math.min(1, p.visibility ?? 1));
+      const out: Landmark = { ...p, x: f.x.next(p.x, dt, w), y: f.y.next(p.y, dt, w) };
+      if (p.z != null) out.z = f.z.next(p.z, dt, w);
+      return out;
+    });
+  }
+
+  /** New parameters take effect from the next frame (filters restart). */
+  function configure(next: SmoothingSettings) {
+    config = next;
+    reset();
+  }
+
+  return { smooth, configure, reset };
+}
+
+export type LandmarkSmoother = ReturnType<typeof createLandmarkSmoother>;
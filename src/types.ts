@@ -1,3 +1,5 @@
+import type { FocusState, LandmarkRecording, PostureBaseline } from "@/types/contracts";
+
 export type PostureState =
   | "good"
   | "lean_left"
@@ -5,6 +7,8 @@ export type PostureState =
   | "slouch"
   | "too_close"
   | "no_person"
+  /** Person in frame, but the landmarks some enabled check needs are hidden */
+  | "uncertain"
   | "too_far"
   | "body_lean_left"
   | "body_lean_right"
@@ -17,15 +21,33 @@ export type PostureState =
   | "back_not_straight";
 
 export type PostureMetrics = {
+  /** Head roll used for tilt: face matrix when a face is tracked, else the ear line */
   rollDeg: number;
+  /** Pose fallback for head up/down (nose below eye-mid) */
   noseEyeDeltaY: number;
+  /** Face-matrix head pose in display space (+ yaw = screen right, + pitch = chin up); null without a face */
+  headYawDeg: number | null;
+  headPitchDeg: number | null;
+  headRollDeg: number | null;
+  /** Neutral pitch head up/down is measured from; null before one exists or without a face */
+  headPitchBaselineDeg: number | null;
   shouldersYDiff: number;
   shouldersZDiff: number;
   forwardHead: boolean;
   bodyOffsetX: number;
+  /** Degrees off vertical: torso axis when hips are visible, else the shoulder line */
   torsoFromVertical: number;
+  /** Neck length vs baseline (< 1 = head sinking); null before a baseline */
+  neckRatio: number | null;
+  /** Forward/back torso pitch, only when hips are visible */
+  torsoPitchDeg: number | null;
+  hipsVisible: boolean;
   faceArea: number | null;
   baseline: number | null;
+  /** Iris-based screen distance; null without a tracked iris */
+  distanceCm: number | null;
+  /** 0-1 per active issue: how far its metric is past the threshold */
+  severity: Partial<Record<PostureState, number>>;
 };
 
 export type PostureFlags = {
@@ -37,6 +59,9 @@ export type PostureFlags = {
   shouldersDepthMisaligned: boolean;
   forwardHead: boolean;
   slouch: boolean;
+  backNotStraight: boolean;
+  isLeaningLeft: boolean;
+  isLeaningRight: boolean;
   isBodyLeaningLeft: boolean;
   isBodyLeaningRight: boolean;
   tooClose: boolean;
@@ -62,12 +87,13 @@ export type CoachReminderPayload = {
   flags?: PostureFlags;
 };
 
-export type MonitoringEvent =
+export type MonitoringEvent = (
   | {
       type: "posture_alert";
       ts: number;
       payload: {
         state: PostureState;
+        /** Severity (0-1) of `state` */
         score?: number;
         metrics?: PostureMetrics;
         flags?: PostureFlags;
@@ -88,19 +114,143 @@ export type MonitoringEvent =
         tooFar?: boolean;
       };
     }
-  | { type: "person_lost"; ts: number; payload: {} };
+  | {
+      type: "distraction_alert";
+      ts: number;
+      payload: {
+        state: Exclude<FocusState, "screen_facing">;
+        durationMs: number;
+        yawDeg?: number;
+        pitchDeg?: number;
+      };
+    }
+  | { type: "person_lost"; ts: number; payload: {} }
+  | { type: "camera_lost"; ts: number; payload: { label?: string } }
+  | { type: "camera_restored"; ts: number; payload: { label?: string } }
+  | { type: "monitoring_paused"; ts: number; payload: { reason: PauseEventReason } }
+  | { type: "monitoring_resumed"; ts: number; payload: { reason: PauseEventReason } }
+) & {
+  /** Set on events from a replayed recording or the demo: nothing real happened */
+  replay?: true;
+};
+
+/** Why detection is paused: the user, a hidden tab, or nobody in view for a long time (camera off). */
+export type PauseReason = "manual" | "tab_hidden" | "absent";
+
+/**
+ * "throttled": the browser slowed a hidden tab's timers so far that frames are too far
+ * apart to record; detection keeps running, so it never shows up as `pauseReason`.
+ */
+export type PauseEventReason = PauseReason | "throttled";
+
+export type MonitoringEventType = MonitoringEvent["type"];
+
+/** The MonitoringEvent variant with type `T` (typed payload for handlers). */
+export type MonitoringEventOf<T extends MonitoringEventType> = Extract<MonitoringEvent, { type: T }>;
+
+export type CalibrationStatus = {
+  phase: "collecting" | "ready";
+  /** 0..1 of the required still hold */
+  progress: number;
+  /** Human-readable reasons the hold was (re)started */
+  problems: string[];
+};
+
+export type CameraDevice = {
+  deviceId: string;
+  /** Generic "Camera N" until camera permission has been granted once */
+  label: string;
+};
+
+export type ReplayStatus = {
+  recordingId: string;
+  label: string;
+  positionMs: number;
+  durationMs: number;
+  playing: boolean;
+  speed: number;
+};
+
+/** Live inference rates, refreshed about once a second while the camera runs. */
+export type InferenceDiagnostics = {
+  /** Frames actually analyzed per second (pose) */
+  fps: number;
+  /** Frames per second that also ran face tracking */
+  faceFps: number;
+  /** Rate the adaptive scheduler is aiming for */
+  targetFps: number;
+  /** Mean worker time per frame (pose + face) */
+  inferenceMs: number;
+  /** Running on battery (battery saver halves the rates) */
+  onBattery: boolean;
+};
 
 export type MonitoringEngine = {
   start: () => Promise<void>;
   stop: () => void;
+  /** Toggles a manual pause; while paused for any reason, resumes */
   pause: () => void;
 
   isRunning: boolean;
   isPaused: boolean;
+  /** Non-null while paused; "absent" means the camera was released and comes back on user activity or a probe */
+  pauseReason: PauseReason | null;
 
   currentPostureState: PostureState;
+  /** Screen distance in cm (iris-based); null when no iris is tracked */
   distanceSignal: number | null;
+  /** null when face tracking is off */
+  focusState: FocusState | null;
+  /** Blinks/min over the last minute (null until enough eye data) */
+  blinkRate: number | null;
+  /** 0-100 eye-fatigue score, see lib/eyes/fatigue */
+  fatigueScore: number | null;
+  /** Delegate the models actually run on; null while stopped */
+  backend: "GPU" | "CPU" | null;
+  /** null while stopped or replaying */
+  diagnostics: InferenceDiagnostics | null;
 
+  /** Most recent first; only kept when the `eventLog` option is set (use `on` to react to events) */
   events: MonitoringEvent[];
+  /** Subscribe to one event type; every event is delivered, in order. Returns the unsubscribe function. */
+  on: <T extends MonitoringEventType>(type: T, handler: (e: MonitoringEventOf<T>) => void) => () => void;
+  /** Subscribe to every event. Returns the unsubscribe function. */
+  onAny: (handler: (e: MonitoringEvent) => void) => () => void;
   activeStates: PostureState[];
+
+  /** Saved calibration; null => baseline is averaged from the first frames of each run */
+  baseline: PostureBaseline | null;
+  /** Non-null while the calibration wizard is collecting */
+  calibration: CalibrationStatus | null;
+  startCalibration: () => void;
+  confirmCalibration: () => Promise<boolean>;
+  cancelCalibration: () => void;
+  resetBaseline: () => Promise<void>;
+  /**
+   * Focal ratio that makes the current iris size read as `knownCm` (save it
+   * as settings.distance.focalRatio); null until the iris has been tracked.
+   */
+  calibrateDistance: (knownCm: number) => number | null;
+
+  /** Raw landmark capture (no video) for reproducing detections later */
+  isRecordingLandmarks: boolean;
+  startLandmarkRecording: () => void;
+  stopLandmarkRecording: () => Promise<LandmarkRecording | null>;
+
+  /** Video inputs from enumerateDevices (labels appear after permission) */
+  cameras: CameraDevice[];
+  refreshCameras: () => Promise<CameraDevice[]>;
+  /** Running, but the camera ended or was unplugged; reconnects when it is back */
+  cameraLost: boolean;
+
+  /** Non-null while a recording is fed through the engine in place of the camera */
+  replay: ReplayStatus | null;
+  startReplay: (recordingId: string) => Promise<void>;
+  /** Replays a generated stream that walks through every posture state */
+  startDemo: () => void;
+  playReplay: () => void;
+  pauseReplay: () => void;
+  seekReplay: (ms: number) => void;
+  setReplaySpeed: (speed: number) => void;
+  stopReplay: () => void;
 };
\ No newline at end of file
@@ -1,17 +1,16 @@
-export type Sensitivity = "low" | "medium" | "high";
+import type { PostureState } from "@/types";
+import type { FrameResult } from "@/lib/vision/protocol";
+
+// One posture taxonomy for engine + storage (categories live in lib/posture/taxonomy)
+export type { PostureState };
 
-export type PostureState =
-  | "good"
-  | "slouch"
-  | "lean_left"
-  | "lean_right"
-  | "too_close"
-  | "shoulder_imbalance";
+export type Sensitivity = "low" | "medium" | "high";
 
 export type FocusState = "screen_facing" | "looking_away" | "away";
 
 export type EventType =
   | "posture_alert"
+  | "coach_reminder"
   | "distraction_alert"
   | "break_reminder"
   | "water_reminder"
@@ -19,7 +18,11 @@ export type EventType =
   | "gesture_action"
   | "user_ack"
   | "session_start"
-  | "session_end";
+  | "session_end"
+  | "camera_lost"
+  | "camera_restored"
+  | "monitoring_paused"
+  | "monitoring_resumed";
 
 export type AppEvent = {
   id: string;
@@ -29,13 +32,135 @@ export type AppEvent = {
   payload?: Record<string, unknown>;
 };
 
+/** MediaPipe delegate; "auto" tries GPU and falls back to CPU. */
+export type InferenceBackend = "auto" | "GPU" | "CPU";
+
+/** Pose model size: lite is fastest, heavy is most accurate. */
+export type PoseModelVariant = "lite" | "full" | "heavy";
+
+export type InferenceSettings = {
+  backend: InferenceBackend;
+  poseModel: PoseModelVariant;
+};
+
+export type CameraResolution = "480p" | "720p" | "1080p";
+
+export type CameraSettings = {
+  deviceId: string | null; // null = browser default
+  resolution: CameraResolution;
+  fps: number;
+};
+
+/** Temporal landmark filter applied before the posture math. */
+export type SmoothingFilter = "off" | "one_euro" | "kalman";
+
+export type SmoothingSettings = {
+  filter: SmoothingFilter;
+  minCutoffHz: number; // One Euro: cutoff at rest (lower = smoother, more lag)
+  beta: number; // One Euro: how fast the cutoff rises with speed
+  kalmanProcessNoise: number; // Kalman: how quickly landmarks may accelerate
+  kalmanMeasurementNoise: number; // Kalman: expected jitter (normalized units)
+  showRaw: boolean; // overlay draws raw points next to the smoothed ones
+};
+
+/** Absolute screen distance rule (iris-based, see lib/posture/distance). */
+export type DistanceSettings = {
+  minCm: number; // closer than this -> too_close
+  maxCm: number; // farther than this -> too_far
+  cameraFovDeg: number; // horizontal field of view, used until calibrated
+  focalRatio: number | null; // focal length / frame width from a known-distance calibration
+};
+
+/** Per-frame detection thresholds (normalized landmark units unless noted). */
+export type PostureThresholds = {
+  headRollDeg: number; // head roll (face matrix, else ear line), degrees
+  headPitchDown: number; // no face: nose below eye-mid
+  headPitchUp: number; // no face: nose barely below eye-mid
+  headPitchDownDeg: number; // face tracked: chin down vs baseline pitch, degrees
+  headPitchUpDeg: number; // face tracked: chin up vs baseline pitch, degrees
+  shouldersUnevenY: number;
+  shouldersDepthZ: number;
+  forwardHeadZ: number;
+  bodyLeanX: number; // shoulder-mid drift from baseline
+  slouchNeckRatio: number; // neck length vs baseline
+  slouchNeckHardMin: number; // used before a baseline exists
+  torsoPitchDeg: number; // hips visible: torso forward/back from vertical
+  torsoLeanDeg: number; // trunk sideways (torso axis, or shoulder line without hips)
+  tooCloseMul: number; // face area vs baseline (fallback when the iris isn't tracked)
+  tooFarMul: number;
+};
+
+/** Stability filter: how long an issue must persist / be gone before it flips. */
+export type StabilityTiming = {
+  persistMs: number;
+  clearMs: number;
+};
+
+/** What a hidden tab does to a running camera: fewer frames, or a full pause. */
+export type HiddenTabPolicy = "reduce" | "pause";
+
+export type AutoPauseSettings = {
+  hiddenTab: HiddenTabPolicy;
+  hiddenFps: number; // frame rate while hidden with "reduce" (browsers may throttle further)
+  releaseAfterMin: number; // turn the camera off after this long with nobody in view (0 = never)
+  probeEverySec: number; // while off, briefly turn it on to look for the user (0 = only on user activity)
+};
+
+/** Inference scheduling: the pose rate follows how settled posture is, face tracking runs slower. */
+export type PowerSettings = {
+  adaptive: boolean; // false = pose always at maxFps
+  minFps: number; // pose rate once posture has been settled for a while
+  maxFps: number; // pose rate while issues are appearing or active
+  faceFps: number; // face tracking (distance, head pose, focus, blinks); never above the pose rate
+  trackBlinks: boolean; // keep face (and so pose) at BLINK.minFaceFps or more; off = blink rate/fatigue unknown below it
+  batterySaver: boolean; // halve every rate while on battery (where the Battery Status API exists), down to the blink floor
+};
+
+export type CoachProfile = "demo" | "gentle" | "standard" | "strict" | "custom";
+
+/** When coach_reminder and posture_alert fire. */
+export type CoachTiming = {
+  windowMs: number; // rolling good/bad window
+  badDominanceMs: number; // bad time within one window that earns a reminder
+  continuousBadMs: number; // one issue held this long earns a reminder right away
+  cooldownMs: number; // min gap between coach reminders
+  alertCooldownMs: number; // min gap between posture alerts
+};
+
+export type CoachSettings = {
+  profile: CoachProfile;
+  /** Used when profile is "custom" */
+  custom: CoachTiming;
+};
+
+/** Optional per-issue tweaks layered on top of the sensitivity profile. */
+export type PostureOverrides = {
+  thresholds?: Partial<PostureThresholds>;
+  stable?: Partial<StabilityTiming>;
+  disabled?: PostureState[];
+};
+
 export type UserSettings = {
   sensitivity: Sensitivity;
+  postureOverrides?: PostureOverrides;
   focusMode: boolean;
   cameraEnabled: boolean;
   voiceEnabled: boolean;
   privacyMode: boolean;
 
+  // applied on the next start()
+  inference: InferenceSettings;
+
+  // applied live (a running camera is reopened)
+  camera: CameraSettings;
+
+  // applied live
+  smoothing: SmoothingSettings;
+  distance: DistanceSettings;
+  coach: CoachSettings; // applied live
+  autoPause: AutoPauseSettings; // applied live
+  power: PowerSettings; // applied live
+
   reminders: {
     breakMin: number;
     waterMin: number;
@@ -53,7 +178,9 @@ export type MinuteBucket = {
   sessionId: string;
   minuteTs: number; // timestamp rounded to minute
 
-  postureSec: Record<PostureState, number>;
+  postureSec: Partial<Record<Exclude<PostureState, "no_person" | "uncertain">, number>>; // sparse, seconds per state
+  severitySec?: Partial<Record<Exclude<PostureState, "no_person" | "uncertain">, number>>; // postureSec weighted by 0-1 severity (issues only; absent on older rows)
+  uncertainSec?: number; // person in frame but key landmarks hidden; not credited to any posture state (absent on older rows)
   focusSec: {
     screenFacing: number;
     lookingAway: number;
@@ -61,7 +188,8 @@ export type MinuteBucket = {
   };
 
   blinkCount: number;
-  fatigueAvg: number; // 0-100
+  fatigueAvg: number; // 0-100, time-weighted over fatigueSec; meaningless when fatigueSec is 0
+  fatigueSec?: number; // seconds with eye data behind fatigueAvg (absent on older rows)
 
   alertCount: number;
   reminderCount: {
@@ -76,4 +204,37 @@ export type Session = {
   startTs: number;
   endTs?: number;
   settingsSnapshot: UserSettings;
-};
\ No newline at end of file
+};
+
+/** One inference result as recorded (landmarks only, never pixels). */
+export type RecordedFrame = Omit<FrameResult, "inferenceMs">;
+
+/** Landmark recording metadata; frames live in recordingChunks. */
+export type LandmarkRecording = {
+  id: string;
+  label: string;
+  createdAt: number;
+  durationMs: number;
+  frameCount: number;
+  // source video size, so replay can draw the overlay at the right aspect
+  width: number;
+  height: number;
+  sessionId?: string;
+};
+
+export type RecordingChunk = {
+  id: string;
+  recordingId: string;
+  seq: number;
+  frames: RecordedFrame[];
+};
+
+/** Reference "good posture" captured by the calibration wizard (kv key "baseline"). */
+export type PostureBaseline = {
+  shoulderX: number; // shoulder-mid x (mirrored frame)
+  neckY: number; // nose.y - shoulderMid.y
+  faceArea: number | null; // faceAreaSignal, null if face tracking was off
+  headPitchDeg?: number | null; // face-matrix pitch while looking at the screen (absent on older baselines)
+  capturedAt: number;
+  samples: number;
+};